@@ -5,21 +5,36 @@ import { VideoEditor } from "@/components/editor/video-editor";
 import { GithubBadge } from "@/components/github-badge";
 import { Logo } from "@/components/logo";
 import { Toaster } from "@/components/ui/sonner";
-import { Heart, Video, Scissors } from "lucide-react";
+import { ShortcutSheet } from "@/components/shortcuts/shortcut-sheet";
+import { useShortcuts, useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
+import { Heart, Video, Scissors, Keyboard } from "lucide-react";
+import { RecordingMetadata } from "@/lib/types";
 
 type AppState = 'recording' | 'editing';
 
 interface RecordingData {
   blob: Blob;
   duration: number;
+  metadata: RecordingMetadata;
 }
 
 export default function App() {
   const [appState, setAppState] = useState<AppState>('recording');
   const [recordingData, setRecordingData] = useState<RecordingData | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const shortcutBindings = useShortcutBindings();
 
-  const handleRecordingComplete = useCallback((blob: Blob, duration: number) => {
-    setRecordingData({ blob, duration });
+  useShortcuts({
+    'global.showShortcuts': () => setShowShortcuts(prev => !prev),
+  });
+
+  const handleRecordingComplete = useCallback((
+    blob: Blob,
+    duration: number,
+    metadata: RecordingMetadata = { sceneChanges: [], markers: [] }
+  ) => {
+    setRecordingData({ blob, duration, metadata });
     setAppState('editing');
   }, []);
 
@@ -47,7 +62,16 @@ export default function App() {
             </span>
           </div>
 
-          <GithubBadge />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="text-neutral-500 hover:text-neutral-300 transition-colors"
+              title={`Keyboard shortcuts (${formatBinding(shortcutBindings['global.showShortcuts'])})`}
+            >
+              <Keyboard className="w-4 h-4" />
+            </button>
+            <GithubBadge />
+          </div>
         </div>
       </header>
 
@@ -94,6 +118,9 @@ export default function App() {
                 <VideoEditor
                   videoBlob={recordingData.blob}
                   videoDuration={recordingData.duration}
+                  sceneChanges={recordingData.metadata.sceneChanges}
+                  markers={recordingData.metadata.markers}
+                  isoTracks={recordingData.metadata.isoTracks}
                   onBack={handleBackToRecording}
                 />
               ) : null}
@@ -122,6 +149,7 @@ export default function App() {
         </div>
       </footer>
 
+      <ShortcutSheet open={showShortcuts} onOpenChange={setShowShortcuts} />
       <Toaster />
     </div>
   );
@@ -0,0 +1,176 @@
+"use client";
+
+import { CameraLayoutKeyframe, CameraPosition, CameraShape, CameraSize, CompositeOnlyFeature, CAMERA_SIZE_RATIO } from "@/lib/types";
+import {
+  COMPOSITE_ONLY_FEATURE_LABELS,
+  getCameraLayoutAt,
+  getPresetPlacement,
+  setCameraLayoutKeyframe,
+  removeCameraLayoutKeyframe,
+} from "@/lib/editor/camera-layout";
+import { formatTime } from "@/lib/editor/timeline";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff, Lock, X } from "lucide-react";
+
+interface CameraLayoutPanelProps {
+  keyframes: CameraLayoutKeyframe[];
+  onKeyframesChange: (keyframes: CameraLayoutKeyframe[]) => void;
+  currentTime: number;
+  outputSize: { width: number; height: number };
+  onSeek: (time: number) => void;
+  /** What the recording shows beyond the separate tracks; re-layout is unavailable if any */
+  compositeOnly: CompositeOnlyFeature[];
+}
+
+const POSITION_OPTIONS: { position: CameraPosition; label: string }[] = [
+  { position: 'top-left', label: '↖' },
+  { position: 'top-right', label: '↗' },
+  { position: 'bottom-left', label: '↙' },
+  { position: 'bottom-center', label: '↓' },
+  { position: 'bottom-right', label: '↘' },
+];
+
+const SHAPE_LABELS: Record<CameraShape, string> = {
+  rectangle: 'Rect',
+  'rounded-square': 'Rounded',
+  squircle: 'Squircle',
+  circle: 'Circle',
+};
+
+const SIZE_OPTIONS: CameraSize[] = ['small', 'medium', 'large'];
+
+function optionClassName(active: boolean): string {
+  return `px-2 py-1 rounded border text-xs font-mono transition-all ${
+    active
+      ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+      : 'border-neutral-700 hover:border-neutral-600 text-neutral-400'
+  }`;
+}
+
+/**
+ * Edits where the camera sits over time. Every change applies from the
+ * playhead until the next keyframe, and is rendered from the isolated
+ * screen and camera tracks at export. Recordings whose composite holds more
+ * than those tracks can't be re-laid out without losing it, so editing is
+ * blocked and what would be lost is listed.
+ */
+export function CameraLayoutPanel({
+  keyframes,
+  onKeyframesChange,
+  currentTime,
+  outputSize,
+  onSeek,
+  compositeOnly,
+}: CameraLayoutPanelProps) {
+  const current = getCameraLayoutAt(keyframes, currentTime);
+
+  if (compositeOnly.length > 0) {
+    return (
+      <div className="flex items-start gap-2 text-xs font-mono text-neutral-500">
+        <Lock className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+        <span>
+          Camera re-layout is unavailable for this recording. It is rebuilt from the separate screen and
+          camera tracks, which would lose: {compositeOnly.map(feature => COMPOSITE_ONLY_FEATURE_LABELS[feature]).join(', ')}.
+        </span>
+      </div>
+    );
+  }
+
+  const applyChange = (changes: Partial<CameraLayoutKeyframe>) => {
+    onKeyframesChange(setCameraLayoutKeyframe(keyframes, { ...current, ...changes, time: currentTime }));
+  };
+
+  const currentSize = SIZE_OPTIONS.find(size => Math.abs(CAMERA_SIZE_RATIO[size] - current.size) < 0.001);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-mono text-neutral-400">
+          Camera at {formatTime(currentTime)}
+        </span>
+        <span className="text-[10px] font-mono text-neutral-600">
+          Re-rendered from the separate tracks at export; the bubble is drawn without its border
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          variant={current.visible ? "outline" : "default"}
+          size="sm"
+          onClick={() => applyChange({ visible: !current.visible })}
+        >
+          {current.visible ? <Eye className="w-4 h-4 mr-1" /> : <EyeOff className="w-4 h-4 mr-1" />}
+          {current.visible ? 'Shown' : 'Hidden'}
+        </Button>
+
+        <div className="flex gap-1">
+          {POSITION_OPTIONS.map(({ position, label }) => (
+            <button
+              key={position}
+              onClick={() => applyChange(getPresetPlacement(position, currentSize ?? 'medium', outputSize))}
+              disabled={!current.visible}
+              className={`${optionClassName(false)} disabled:opacity-50`}
+              title={position.replace('-', ' ')}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1">
+          {SIZE_OPTIONS.map((size) => (
+            <button
+              key={size}
+              onClick={() => applyChange({ size: CAMERA_SIZE_RATIO[size] })}
+              disabled={!current.visible}
+              className={`${optionClassName(currentSize === size)} disabled:opacity-50`}
+            >
+              {size[0].toUpperCase()}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1">
+          {(Object.keys(SHAPE_LABELS) as CameraShape[]).map((shape) => (
+            <button
+              key={shape}
+              onClick={() => applyChange({ shape })}
+              disabled={!current.visible}
+              className={`${optionClassName(current.shape === shape)} disabled:opacity-50`}
+            >
+              {SHAPE_LABELS[shape]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {keyframes.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {keyframes.map((keyframe, index) => (
+            <div
+              key={keyframe.time}
+              className={`flex items-center gap-1 text-xs px-2 py-1 rounded border ${
+                keyframe === current
+                  ? 'border-blue-600/50 bg-blue-600/20 text-blue-400'
+                  : 'border-neutral-700 text-neutral-400'
+              }`}
+            >
+              <button onClick={() => onSeek(keyframe.time)} title="Go to keyframe">
+                {formatTime(keyframe.time)} {keyframe.visible ? SHAPE_LABELS[keyframe.shape] : 'Hidden'}
+              </button>
+              {index > 0 && (
+                <button
+                  onClick={() => onKeyframesChange(removeCameraLayoutKeyframe(keyframes, keyframe.time))}
+                  className="hover:text-red-400"
+                  title="Remove keyframe"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ExportOptions, ExportProgress } from "@/lib/types";
-import { Download, FileVideo, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { Download, FileAudio, FileVideo, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 
 interface ExportDialogProps {
   open: boolean;
@@ -12,16 +12,31 @@ interface ExportDialogProps {
   onExport: (options: ExportOptions) => void;
   progress: ExportProgress | null;
   isExporting: boolean;
+  /** Offers audio formats for recordings without a video track */
+  audioOnly?: boolean;
 }
 
+const VIDEO_FORMAT_OPTIONS: { format: ExportOptions['format']; description: string }[] = [
+  { format: 'webm', description: 'Smaller file, faster export' },
+  { format: 'mp4', description: 'Universal compatibility' },
+];
+
+const AUDIO_FORMAT_OPTIONS: { format: ExportOptions['format']; description: string }[] = [
+  { format: 'opus', description: 'Smallest file, great for voice' },
+  { format: 'mp3', description: 'Plays everywhere' },
+  { format: 'wav', description: 'Uncompressed, for further editing' },
+];
+
 export function ExportDialog({
   open,
   onOpenChange,
   onExport,
   progress,
   isExporting,
+  audioOnly = false,
 }: ExportDialogProps) {
-  const [format, setFormat] = useState<ExportOptions['format']>('webm');
+  const formatOptions = audioOnly ? AUDIO_FORMAT_OPTIONS : VIDEO_FORMAT_OPTIONS;
+  const [format, setFormat] = useState<ExportOptions['format']>(formatOptions[0].format);
   const [quality, setQuality] = useState<ExportOptions['quality']>('medium');
 
   const handleExport = () => {
@@ -46,8 +61,8 @@ export function ExportDialog({
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="font-mono flex items-center gap-2">
-            <FileVideo className="w-5 h-5" />
-            Export Video
+            {audioOnly ? <FileAudio className="w-5 h-5" /> : <FileVideo className="w-5 h-5" />}
+            Export {audioOnly ? 'Audio' : 'Video'}
           </DialogTitle>
           <DialogDescription className="font-mono text-sm">
             Choose format and quality for your recording
@@ -77,38 +92,25 @@ export function ExportDialog({
             {/* Format selection */}
             <div className="space-y-3">
               <label className="text-sm font-mono text-neutral-400">Format</label>
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  onClick={() => setFormat('webm')}
-                  className={`p-4 rounded-lg border-2 transition-all ${
-                    format === 'webm'
-                      ? 'border-blue-500 bg-blue-500/10'
-                      : 'border-neutral-700 hover:border-neutral-600'
-                  }`}
-                >
-                  <div className="text-left">
-                    <p className="font-mono font-medium">.webm</p>
-                    <p className="text-xs text-neutral-500 mt-1">
-                      Smaller file, faster export
-                    </p>
-                  </div>
-                </button>
-                
-                <button
-                  onClick={() => setFormat('mp4')}
-                  className={`p-4 rounded-lg border-2 transition-all ${
-                    format === 'mp4'
-                      ? 'border-blue-500 bg-blue-500/10'
-                      : 'border-neutral-700 hover:border-neutral-600'
-                  }`}
-                >
-                  <div className="text-left">
-                    <p className="font-mono font-medium">.mp4</p>
-                    <p className="text-xs text-neutral-500 mt-1">
-                      Universal compatibility
-                    </p>
-                  </div>
-                </button>
+              <div className={`grid gap-3 ${audioOnly ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                {formatOptions.map((option) => (
+                  <button
+                    key={option.format}
+                    onClick={() => setFormat(option.format)}
+                    className={`p-4 rounded-lg border-2 transition-all ${
+                      format === option.format
+                        ? 'border-blue-500 bg-blue-500/10'
+                        : 'border-neutral-700 hover:border-neutral-600'
+                    }`}
+                  >
+                    <div className="text-left">
+                      <p className="font-mono font-medium">.{option.format}</p>
+                      <p className="text-xs text-neutral-500 mt-1">
+                        {option.description}
+                      </p>
+                    </div>
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -1,10 +1,13 @@
 "use client";
 
 import { useRef, useState, useCallback, useEffect } from "react";
-import { EditorState, TimelineSegment } from "@/lib/types";
-import { formatTime } from "@/lib/editor/timeline";
-import { Scissors, Trash2, RotateCcw } from "lucide-react";
+import { EditorState, MarkerKind, RecordingMarker, SceneChange, SceneLayout } from "@/lib/types";
+import { SCENE_LABELS } from "@/lib/recorder/scenes";
+import { formatTime, getNextMarker, getPreviousMarker } from "@/lib/editor/timeline";
+import { Scissors, Trash2, RotateCcw, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
 
 interface TimelineProps {
   editorState: EditorState;
@@ -15,8 +18,27 @@ interface TimelineProps {
   onRestoreSegment: (segmentId: string) => void;
   onSeek: (time: number) => void;
   currentTime: number;
+  sceneChanges?: SceneChange[];
+  markers?: RecordingMarker[];
 }
 
+const SCENE_COLORS: Record<SceneLayout, string> = {
+  'screen-bubble': 'bg-sky-500/60',
+  split: 'bg-violet-500/60',
+  'camera-inset': 'bg-emerald-500/60',
+  'screen-only': 'bg-neutral-500/60',
+};
+
+const MARKER_COLORS: Record<MarkerKind, { line: string; chip: string }> = {
+  highlight: { line: 'bg-amber-400', chip: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+  redo: { line: 'bg-red-500', chip: 'bg-red-500/20 text-red-400 border-red-500/30' },
+};
+
+const MARKER_LABELS: Record<MarkerKind, string> = {
+  highlight: 'Marker',
+  redo: 'Redo',
+};
+
 export function Timeline({
   editorState,
   onTrimStart,
@@ -26,6 +48,8 @@ export function Timeline({
   onRestoreSegment,
   onSeek,
   currentTime,
+  sceneChanges = [],
+  markers = [],
 }: TimelineProps) {
   const timelineRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState<'start' | 'end' | 'playhead' | null>(null);
@@ -99,6 +123,9 @@ export function Timeline({
 
   const firstActiveSegment = editorState.segments.find(s => !s.deleted);
   const lastActiveSegment = [...editorState.segments].reverse().find(s => !s.deleted);
+  const previousMarker = getPreviousMarker(markers, currentTime);
+  const nextMarker = getNextMarker(markers, currentTime);
+  const bindings = useShortcutBindings();
 
   return (
     <div className="w-full space-y-3">
@@ -109,11 +136,33 @@ export function Timeline({
             variant={splitMode ? "default" : "outline"}
             size="sm"
             onClick={() => setSplitMode(!splitMode)}
-            title="Split tool - click on timeline to split"
+            title={`Split tool - click on timeline to split, or press ${formatBinding(bindings['editor.split'])} to split at the playhead`}
           >
             <Scissors className="w-4 h-4 mr-1" />
             Split
           </Button>
+          {markers.length > 0 && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => previousMarker && onSeek(previousMarker.time)}
+                disabled={!previousMarker}
+                title={`Previous marker (${formatBinding(bindings['editor.previousMarker'])})`}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => nextMarker && onSeek(nextMarker.time)}
+                disabled={!nextMarker}
+                title={`Next marker (${formatBinding(bindings['editor.nextMarker'])})`}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </>
+          )}
         </div>
         
         <div className="text-xs font-mono text-neutral-400">
@@ -218,6 +267,22 @@ export function Timeline({
           </div>
         )}
 
+        {/* Markers dropped while recording */}
+        {markers.map((marker) => (
+          <div
+            key={marker.id}
+            className={`absolute top-0 bottom-0 w-0.5 z-20 cursor-pointer ${MARKER_COLORS[marker.kind].line}`}
+            style={{ left: `${getPositionFromTime(marker.time)}%` }}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(marker.time);
+            }}
+            title={`${MARKER_LABELS[marker.kind]} at ${formatTime(marker.time)}${marker.label ? `: ${marker.label}` : ''}`}
+          >
+            <div className={`absolute top-0 left-0 w-2 h-2 rounded-r-sm ${MARKER_COLORS[marker.kind].line}`} />
+          </div>
+        ))}
+
         {/* Playhead */}
         <div
           className="absolute top-0 bottom-0 w-0.5 bg-white z-30 cursor-ew-resize"
@@ -228,6 +293,42 @@ export function Timeline({
         </div>
       </div>
 
+      {/* Scene track, only when the scene was switched during recording */}
+      {sceneChanges.length > 1 && (
+        <div className="relative h-2 bg-neutral-900 rounded overflow-hidden">
+          {sceneChanges.map((change, index) => {
+            const endTime = sceneChanges[index + 1]?.time ?? editorState.duration;
+            return (
+              <div
+                key={`${change.layout}-${change.time}`}
+                className={`absolute top-0 bottom-0 border-l border-neutral-950 ${SCENE_COLORS[change.layout]}`}
+                style={{
+                  left: `${getPositionFromTime(change.time)}%`,
+                  width: `${getPositionFromTime(Math.max(0, endTime - change.time))}%`,
+                }}
+                title={`${SCENE_LABELS[change.layout]} from ${formatTime(change.time)}`}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {/* Marker list */}
+      {markers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {markers.map((marker) => (
+            <button
+              key={marker.id}
+              onClick={() => onSeek(marker.time)}
+              className={`text-xs px-2 py-1 rounded border ${MARKER_COLORS[marker.kind].chip}`}
+              title="Go to marker"
+            >
+              {formatTime(marker.time)} {marker.label ?? MARKER_LABELS[marker.kind]}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Segment list */}
       <div className="flex flex-wrap gap-2">
         {editorState.segments.map((segment, index) => (
@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { EditorState, ExportOptions, ExportProgress } from "@/lib/types";
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { CameraLayoutKeyframe, EditorState, ExportOptions, ExportProgress, IsoTracks, RecordingMarker, SceneChange } from "@/lib/types";
 import { 
   createInitialEditorState, 
   trimStart, 
@@ -10,12 +10,20 @@ import {
   deleteSegment, 
   restoreSegment,
   getTotalActiveDuration,
-  getActiveSegments 
+  getActiveSegments,
+  getSegmentAtTime,
+  getPreviousMarker,
+  getNextMarker
 } from "@/lib/editor/timeline";
-import { exportVideo, downloadBlob, getExportFilename } from "@/lib/editor/operations";
+import { exportVideo, renderCameraLayout, downloadBlob, getExportFilename } from "@/lib/editor/operations";
+import { createInitialCameraLayout, isSameCameraLayout } from "@/lib/editor/camera-layout";
+import { computeWaveformPeaks } from "@/lib/editor/waveform";
+import { isAudioOnlyBlob } from "@/lib/recorder/audio";
 import { VideoPlayer } from "@/components/player/video-player";
 import { Timeline } from "./timeline";
 import { ExportDialog } from "./export-dialog";
+import { CameraLayoutPanel } from "./camera-layout-panel";
+import { useShortcuts } from "@/components/shortcuts/use-shortcuts";
 import { Button } from "@/components/ui/button";
 import { Download, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
@@ -23,10 +31,22 @@ import { toast } from "sonner";
 interface VideoEditorProps {
   videoBlob: Blob;
   videoDuration: number;
+  /** Scene switches made while recording, shown on the timeline */
+  sceneChanges?: SceneChange[];
+  /** Markers dropped while recording */
+  markers?: RecordingMarker[];
+  /** Separate screen and camera files, when recorded; enables camera re-layout */
+  isoTracks?: IsoTracks;
   onBack: () => void;
 }
 
-export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorProps) {
+/** Number of bars in an audio-only recording's waveform */
+const WAVEFORM_BUCKETS = 400;
+
+/** Seconds the playhead moves per nudge shortcut */
+const NUDGE_SECONDS = 1;
+
+export function VideoEditor({ videoBlob, videoDuration, sceneChanges = [], markers = [], isoTracks, onBack }: VideoEditorProps) {
   const [videoUrl, setVideoUrl] = useState<string>('');
   const [editorState, setEditorState] = useState<EditorState>(() => 
     createInitialEditorState(videoDuration)
@@ -36,10 +56,20 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const audioOnly = isAudioOnlyBlob(videoBlob);
+  const [waveformPeaks, setWaveformPeaks] = useState<number[] | null>(null);
+  const initialCameraLayout = useMemo(
+    () => isoTracks ? createInitialCameraLayout(isoTracks.cameraSettings, sceneChanges, isoTracks.outputSize) : [],
+    [isoTracks, sceneChanges]
+  );
+  const [cameraLayout, setCameraLayout] = useState<CameraLayoutKeyframe[]>(initialCameraLayout);
 
   // Calculate these early so they can be used in callbacks
   const activeDuration = getTotalActiveDuration(editorState);
-  const hasEdits = activeDuration !== videoDuration || editorState.segments.some(s => s.deleted);
+  const hasLayoutEdits = isoTracks !== undefined &&
+    isoTracks.compositeOnly.length === 0 &&
+    !isSameCameraLayout(cameraLayout, initialCameraLayout);
+  const hasEdits = activeDuration !== videoDuration || editorState.segments.some(s => s.deleted) || hasLayoutEdits;
 
   useEffect(() => {
     const url = URL.createObjectURL(videoBlob);
@@ -47,6 +77,20 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
     return () => URL.revokeObjectURL(url);
   }, [videoBlob]);
 
+  useEffect(() => {
+    if (!audioOnly) return;
+    let cancelled = false;
+    setWaveformPeaks(null);
+    computeWaveformPeaks(videoBlob, WAVEFORM_BUCKETS).then((peaks) => {
+      if (cancelled) return;
+      if (!peaks) toast.error("Could not draw the waveform");
+      setWaveformPeaks(peaks ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoBlob, audioOnly]);
+
   const handleTrimStart = useCallback((time: number) => {
     setEditorState(prev => trimStart(prev, time));
   }, []);
@@ -89,10 +133,36 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
 
   const handleReset = useCallback(() => {
     setEditorState(createInitialEditorState(videoDuration));
+    setCameraLayout(initialCameraLayout);
     setCurrentTime(0);
     setIsPlaying(false);
     toast.info("Timeline reset");
-  }, [videoDuration]);
+  }, [videoDuration, initialCameraLayout]);
+
+  useShortcuts({
+    'editor.playPause': () => setIsPlaying(playing => !playing),
+    'editor.split': () => {
+      const segment = getSegmentAtTime(editorState, currentTime);
+      if (!segment || currentTime <= segment.startTime || currentTime >= segment.endTime) return;
+      handleSplit(segment.id, currentTime);
+    },
+    'editor.deleteSegment': () => {
+      const segment = getSegmentAtTime(editorState, currentTime);
+      if (segment) handleDeleteSegment(segment.id);
+    },
+    'editor.nudgeBack': () => handleSeek(Math.max(0, currentTime - NUDGE_SECONDS)),
+    'editor.nudgeForward': () => handleSeek(Math.min(videoDuration, currentTime + NUDGE_SECONDS)),
+    'editor.trimIn': () => handleTrimStart(currentTime),
+    'editor.trimOut': () => handleTrimEnd(currentTime),
+    'editor.previousMarker': () => {
+      const marker = getPreviousMarker(markers, currentTime);
+      if (marker) handleSeek(marker.time);
+    },
+    'editor.nextMarker': () => {
+      const marker = getNextMarker(markers, currentTime);
+      if (marker) handleSeek(marker.time);
+    },
+  }, !showExportDialog);
 
   const handleExport = useCallback(async (options: ExportOptions) => {
     setIsExporting(true);
@@ -113,8 +183,13 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
     }
 
     try {
+      // Re-layout first so trims and format apply to the new composite
+      const sourceBlob = isoTracks && hasLayoutEdits
+        ? await renderCameraLayout(videoBlob, isoTracks, cameraLayout, videoDuration, setExportProgress)
+        : videoBlob;
+
       const outputBlob = await exportVideo(
-        videoBlob,
+        sourceBlob,
         editorState,
         options,
         setExportProgress
@@ -135,7 +210,7 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
     } finally {
       setIsExporting(false);
     }
-  }, [videoBlob, editorState, hasEdits]);
+  }, [videoBlob, videoDuration, editorState, hasEdits, isoTracks, hasLayoutEdits, cameraLayout]);
 
   const handleQuickDownload = useCallback(() => {
     const filename = getExportFilename('webm');
@@ -153,6 +228,8 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
           onTimeUpdate={handleTimeUpdate}
           isPlaying={isPlaying}
           onPlayPause={handlePlayPause}
+          audioOnly={audioOnly}
+          waveformPeaks={waveformPeaks}
         />
       </div>
 
@@ -167,9 +244,24 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
           onRestoreSegment={handleRestoreSegment}
           onSeek={handleSeek}
           currentTime={currentTime}
+          sceneChanges={sceneChanges}
+          markers={markers}
         />
       </div>
 
+      {isoTracks && (
+        <div className="bg-neutral-900/50 border border-neutral-800 rounded-lg p-4 noise-texture noise-texture-subtle">
+          <CameraLayoutPanel
+            keyframes={cameraLayout}
+            onKeyframesChange={setCameraLayout}
+            currentTime={currentTime}
+            outputSize={isoTracks.outputSize}
+            onSeek={handleSeek}
+            compositeOnly={isoTracks.compositeOnly}
+          />
+        </div>
+      )}
+
       {/* Editor info */}
       <div className="flex items-center justify-between text-xs font-mono text-neutral-500">
         <span>
@@ -215,6 +307,7 @@ export function VideoEditor({ videoBlob, videoDuration, onBack }: VideoEditorPro
         onExport={handleExport}
         progress={exportProgress}
         isExporting={isExporting}
+        audioOnly={audioOnly}
       />
     </div>
   );
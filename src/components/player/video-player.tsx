@@ -4,6 +4,7 @@ import { useRef, useEffect, useCallback, useState } from "react";
 import { Play, Pause, Volume2, VolumeX, Maximize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Waveform } from "./waveform";
 
 interface VideoPlayerProps {
   src: string;
@@ -13,6 +14,9 @@ interface VideoPlayerProps {
   isPlaying?: boolean;
   onPlayPause?: (isPlaying: boolean) => void;
   showControls?: boolean;
+  /** Plays a recording with no video track, showing its waveform instead of frames */
+  audioOnly?: boolean;
+  waveformPeaks?: number[] | null;
 }
 
 function formatTime(seconds: number): string {
@@ -29,6 +33,8 @@ export function VideoPlayer({
   isPlaying: externalIsPlaying,
   onPlayPause,
   showControls = true,
+  audioOnly = false,
+  waveformPeaks = null,
 }: VideoPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [internalIsPlaying, setInternalIsPlaying] = useState(false);
@@ -166,12 +172,21 @@ export function VideoPlayer({
       <video
         ref={videoRef}
         src={src}
-        className="w-full h-full object-contain"
+        className={audioOnly ? 'hidden' : 'w-full h-full object-contain'}
         onClick={togglePlay}
       />
 
+      {audioOnly && (
+        <Waveform
+          peaks={waveformPeaks}
+          currentTime={currentTime}
+          duration={duration}
+          onSeek={(time) => handleSeek([time])}
+        />
+      )}
+
       {/* Play button overlay */}
-      {!isPlaying && (
+      {!isPlaying && !audioOnly && (
         <button
           onClick={togglePlay}
           className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -248,14 +263,16 @@ export function VideoPlayer({
             </div>
 
             <div className="flex items-center gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={toggleFullscreen}
-                className="text-white hover:bg-white/20"
-              >
-                <Maximize2 className="w-5 h-5" />
-              </Button>
+              {!audioOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={toggleFullscreen}
+                  className="text-white hover:bg-white/20"
+                >
+                  <Maximize2 className="w-5 h-5" />
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,61 @@
+"use client";
+
+import { useRef, useEffect, useCallback } from "react";
+
+interface WaveformProps {
+  /** Peak levels (0–1) from `computeWaveformPeaks`; null while decoding */
+  peaks: number[] | null;
+  currentTime: number;
+  duration: number;
+  onSeek?: (time: number) => void;
+}
+
+const PLAYED_COLOR = '#3b82f6';
+const UNPLAYED_COLOR = '#525252';
+const BAR_GAP = 1;
+
+export function Waveform({ peaks, currentTime, duration, onSeek }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !peaks) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const barWidth = width / peaks.length;
+    const playedX = duration > 0 ? (currentTime / duration) * width : 0;
+    const middle = height / 2;
+
+    peaks.forEach((peak, i) => {
+      const x = i * barWidth;
+      const barHeight = Math.max(1, peak * height * 0.9);
+      ctx.fillStyle = x < playedX ? PLAYED_COLOR : UNPLAYED_COLOR;
+      ctx.fillRect(x, middle - barHeight / 2, Math.max(1, barWidth - BAR_GAP), barHeight);
+    });
+  }, [peaks, currentTime, duration]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek || duration <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    onSeek(ratio * duration);
+  }, [onSeek, duration]);
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center px-6">
+      {peaks ? (
+        <canvas ref={canvasRef} onClick={handleClick} className="w-full h-1/2 cursor-pointer" />
+      ) : (
+        <span className="text-neutral-500 font-mono text-sm">Loading waveform...</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useRef, useEffect } from "react";
+import { AnnotationLayer, AnnotationPoint, AnnotationTool } from "@/lib/recorder/annotations";
+
+interface AnnotationSurfaceProps {
+  stream: MediaStream;
+  aspectRatio: number;
+  layer: AnnotationLayer;
+  tool: AnnotationTool;
+  color: string;
+}
+
+/**
+ * Maps a pointer position to normalized canvas coordinates, accounting for the
+ * letterboxing of an `object-contain` video.
+ */
+export function toCanvasPoint(
+  element: HTMLElement,
+  aspectRatio: number,
+  clientX: number,
+  clientY: number
+): AnnotationPoint {
+  const rect = element.getBoundingClientRect();
+  let contentWidth = rect.width;
+  let contentHeight = rect.height;
+
+  if (rect.width / rect.height > aspectRatio) {
+    contentWidth = rect.height * aspectRatio;
+  } else {
+    contentHeight = rect.width / aspectRatio;
+  }
+
+  const offsetX = (rect.width - contentWidth) / 2;
+  const offsetY = (rect.height - contentHeight) / 2;
+
+  return {
+    x: Math.max(0, Math.min(1, (clientX - rect.left - offsetX) / contentWidth)),
+    y: Math.max(0, Math.min(1, (clientY - rect.top - offsetY) / contentHeight)),
+  };
+}
+
+/**
+ * Live view of the composited output that the presenter draws on. Strokes go
+ * straight into the annotation layer, so what is drawn here is what gets recorded.
+ */
+export function AnnotationSurface({ stream, aspectRatio, layer, tool, color }: AnnotationSurfaceProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const isDrawingRef = useRef(false);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch((e) => {
+        if (e.name !== 'AbortError') console.error('Annotation preview play failed:', e);
+      });
+    }
+  }, [stream]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    layer.beginStroke(tool, color, toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDrawingRef.current) return;
+    layer.extendStroke(toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY));
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    layer.endStroke();
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className="w-full h-full object-contain"
+      />
+      <div
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </div>
+  );
+}
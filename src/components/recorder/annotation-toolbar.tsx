@@ -0,0 +1,104 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Pen, MoveUpRight, Square, Highlighter, Sparkles, Undo2, Eraser, PenOff } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { AnnotationTool } from "@/lib/recorder/annotations";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
+
+interface AnnotationToolbarProps {
+  isAnnotating: boolean;
+  onToggleAnnotating: () => void;
+  tool: AnnotationTool;
+  onToolChange: (tool: AnnotationTool) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  onUndo: () => void;
+  onClear: () => void;
+}
+
+export const ANNOTATION_COLORS = ['#ef4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff'];
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: LucideIcon }[] = [
+  { tool: 'pen', label: 'Pen', icon: Pen },
+  { tool: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { tool: 'rectangle', label: 'Rectangle', icon: Square },
+  { tool: 'highlighter', label: 'Highlighter', icon: Highlighter },
+  { tool: 'laser', label: 'Laser (fades out)', icon: Sparkles },
+];
+
+export function AnnotationToolbar({
+  isAnnotating,
+  onToggleAnnotating,
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  onUndo,
+  onClear,
+}: AnnotationToolbarProps) {
+  const bindings = useShortcutBindings();
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        variant={isAnnotating ? "default" : "outline"}
+        size="sm"
+        onClick={onToggleAnnotating}
+        title={`${isAnnotating ? 'Stop' : 'Start'} drawing (${formatBinding(bindings['recorder.toggleDrawing'])})`}
+      >
+        {isAnnotating ? <PenOff className="w-4 h-4 mr-1" /> : <Pen className="w-4 h-4 mr-1" />}
+        Draw
+      </Button>
+
+      {isAnnotating && (
+        <>
+          <div className="flex gap-1">
+            {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+              <button
+                key={option}
+                onClick={() => onToolChange(option)}
+                className={`p-1.5 rounded transition-all ${
+                  tool === option ? 'bg-white/20 text-white' : 'text-neutral-400 hover:bg-white/10'
+                }`}
+                title={label}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+
+          <div className="w-px h-6 bg-neutral-700" />
+
+          <div className="flex gap-1">
+            {ANNOTATION_COLORS.map((option) => (
+              <button
+                key={option}
+                onClick={() => onColorChange(option)}
+                className={`w-5 h-5 rounded-full border-2 ${
+                  color === option ? 'border-white' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+
+          <div className="w-px h-6 bg-neutral-700" />
+
+          <button
+            onClick={onUndo}
+            className="p-1.5 rounded text-neutral-400 hover:bg-white/10"
+            title={`Undo (${formatBinding(bindings['recorder.undoDrawing'])})`}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={onClear} className="p-1.5 rounded text-neutral-400 hover:bg-white/10" title="Clear all">
+            <Eraser className="w-4 h-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
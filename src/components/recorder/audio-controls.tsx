@@ -2,9 +2,13 @@
 
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
-import { Mic, MicOff, Volume2, VolumeX } from "lucide-react";
-import { AudioSettings } from "@/lib/types";
+import { Slider } from "@/components/ui/slider";
+import { Mic, MicOff, Volume1, Volume2, VolumeX, Radio, TrendingDown, AudioLines } from "lucide-react";
+import { AudioSettings, MicProcessingProfile } from "@/lib/types";
 import { createAudioAnalyser, getAudioLevel } from "@/lib/recorder/audio";
+import { MicProcessingChain, MIC_PROCESSING_LABELS, createMicProcessingChain } from "@/lib/recorder/mic-processing";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
 
 interface AudioControlsProps {
   settings: AudioSettings;
@@ -12,8 +16,12 @@ interface AudioControlsProps {
   micStream: MediaStream | null;
   systemStream: MediaStream | null;
   disabled?: boolean;
+  isTalking?: boolean;
 }
 
+/** Upper bound of the volume sliders; values above 1 boost the source */
+const MAX_SOURCE_GAIN = 1.5;
+
 function AudioLevelMeter({ level }: { level: number }) {
   const bars = 5;
   const activeBarCount = Math.ceil(level * bars);
@@ -39,23 +47,100 @@ function AudioLevelMeter({ level }: { level: number }) {
   );
 }
 
+function MicProcessingSelect({
+  profile,
+  onProfileChange,
+}: {
+  profile: MicProcessingProfile;
+  onProfileChange: (profile: MicProcessingProfile) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-neutral-400" title="Microphone processing">
+      <AudioLines className="w-3.5 h-3.5 shrink-0" />
+      <select
+        value={profile}
+        onChange={(e) => onProfileChange(e.target.value as MicProcessingProfile)}
+        aria-label="Microphone processing"
+        className="bg-neutral-900 border border-neutral-700 rounded px-1.5 py-0.5 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500"
+      >
+        {(Object.keys(MIC_PROCESSING_LABELS) as MicProcessingProfile[]).map((option) => (
+          <option key={option} value={option}>
+            {MIC_PROCESSING_LABELS[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function SourceLevelControl({
+  label,
+  gain,
+  muted,
+  onGainChange,
+  onMutedChange,
+}: {
+  label: string;
+  gain: number;
+  muted: boolean;
+  onGainChange: (gain: number) => void;
+  onMutedChange: (muted: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onMutedChange(!muted)}
+        title={muted ? `Unmute ${label}` : `Mute ${label}`}
+        className="size-7"
+      >
+        {muted ? (
+          <VolumeX className="h-3.5 w-3.5 text-red-400" />
+        ) : (
+          <Volume1 className="h-3.5 w-3.5" />
+        )}
+      </Button>
+      <Slider
+        value={[gain]}
+        min={0}
+        max={MAX_SOURCE_GAIN}
+        step={0.05}
+        onValueChange={(value) => onGainChange(value[0])}
+        disabled={muted}
+        aria-label={`${label} volume`}
+        className="w-16"
+      />
+    </div>
+  );
+}
+
 export function AudioControls({
   settings,
   onSettingsChange,
   micStream,
   systemStream,
   disabled = false,
+  isTalking = false,
 }: AudioControlsProps) {
+  const bindings = useShortcutBindings();
   const [micLevel, setMicLevel] = useState(0);
+  const [processedMicLevel, setProcessedMicLevel] = useState(0);
   const [systemLevel, setSystemLevel] = useState(0);
   const audioContextRef = useRef<AudioContext | null>(null);
   const micAnalyserRef = useRef<AnalyserNode | null>(null);
   const systemAnalyserRef = useRef<AnalyserNode | null>(null);
+  // Mirror of the mixer's chain, metered so the effect of a profile is visible before recording
+  const micProcessingRef = useRef<MicProcessingChain | null>(null);
+  const processedMicAnalyserRef = useRef<AnalyserNode | null>(null);
+  const micProcessingProfileRef = useRef(settings.micProcessing);
+  micProcessingProfileRef.current = settings.micProcessing;
   const animationFrameRef = useRef<number | null>(null);
 
   useEffect(() => {
     if (!micStream && !systemStream) {
       setMicLevel(0);
+      setProcessedMicLevel(0);
       setSystemLevel(0);
       return;
     }
@@ -65,6 +150,17 @@ export function AudioControls({
     if (micStream) {
       micAnalyserRef.current = createAudioAnalyser(audioContextRef.current, micStream);
     }
+
+    if (micStream && micStream.getAudioTracks().length > 0) {
+      const audioContext = audioContextRef.current;
+      const chain = createMicProcessingChain(audioContext, micProcessingProfileRef.current);
+      audioContext.createMediaStreamSource(micStream).connect(chain.input);
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 256;
+      chain.output.connect(analyser);
+      micProcessingRef.current = chain;
+      processedMicAnalyserRef.current = analyser;
+    }
     
     if (systemStream) {
       systemAnalyserRef.current = createAudioAnalyser(audioContextRef.current, systemStream);
@@ -74,6 +170,9 @@ export function AudioControls({
       if (micAnalyserRef.current) {
         setMicLevel(getAudioLevel(micAnalyserRef.current));
       }
+      if (processedMicAnalyserRef.current) {
+        setProcessedMicLevel(getAudioLevel(processedMicAnalyserRef.current));
+      }
       if (systemAnalyserRef.current) {
         setSystemLevel(getAudioLevel(systemAnalyserRef.current));
       }
@@ -86,12 +185,19 @@ export function AudioControls({
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
+      micProcessingRef.current?.dispose();
+      micProcessingRef.current = null;
+      processedMicAnalyserRef.current = null;
       if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
         audioContextRef.current.close();
       }
     };
   }, [micStream, systemStream]);
 
+  useEffect(() => {
+    micProcessingRef.current?.setProfile(settings.micProcessing);
+  }, [settings.micProcessing]);
+
   return (
     <div className="flex items-center gap-3">
       {/* Microphone control */}
@@ -111,7 +217,39 @@ export function AudioControls({
           )}
         </Button>
         {settings.microphoneEnabled && micStream && (
-          <AudioLevelMeter level={micLevel} />
+          settings.micProcessing === 'off' ? (
+            <AudioLevelMeter level={micLevel} />
+          ) : (
+            <div className="flex items-center gap-1" title="Microphone level before and after processing">
+              <AudioLevelMeter level={micLevel} />
+              <span className="text-[10px] font-mono text-neutral-500">→</span>
+              <AudioLevelMeter level={processedMicLevel} />
+            </div>
+          )
+        )}
+        {settings.microphoneEnabled && (
+          <>
+            <SourceLevelControl
+              label="microphone"
+              gain={settings.microphoneGain}
+              muted={settings.microphoneMuted}
+              onGainChange={(microphoneGain) => onSettingsChange({ microphoneGain })}
+              onMutedChange={(microphoneMuted) => onSettingsChange({ microphoneMuted })}
+            />
+            <MicProcessingSelect
+              profile={settings.micProcessing}
+              onProfileChange={(micProcessing) => onSettingsChange({ micProcessing })}
+            />
+            <Button
+              variant={settings.pushToTalk ? "default" : "ghost"}
+              size="icon"
+              onClick={() => onSettingsChange({ pushToTalk: !settings.pushToTalk })}
+              title={`Push-to-talk (hold ${formatBinding(bindings['recorder.pushToTalk'])})`}
+              className={`size-7 ${settings.pushToTalk && isTalking ? 'ring-2 ring-green-500' : ''}`}
+            >
+              <Radio className="h-3.5 w-3.5" />
+            </Button>
+          </>
         )}
       </div>
 
@@ -134,6 +272,26 @@ export function AudioControls({
         {settings.systemAudioEnabled && systemStream && (
           <AudioLevelMeter level={systemLevel} />
         )}
+        {settings.systemAudioEnabled && (
+          <>
+            <SourceLevelControl
+              label="system audio"
+              gain={settings.systemAudioGain}
+              muted={settings.systemAudioMuted}
+              onGainChange={(systemAudioGain) => onSettingsChange({ systemAudioGain })}
+              onMutedChange={(systemAudioMuted) => onSettingsChange({ systemAudioMuted })}
+            />
+            <Button
+              variant={settings.duckingEnabled ? "default" : "ghost"}
+              size="icon"
+              onClick={() => onSettingsChange({ duckingEnabled: !settings.duckingEnabled })}
+              title="Lower system audio while you speak"
+              className="size-7"
+            >
+              <TrendingDown className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,194 @@
+"use client";
+
+import { useRef } from "react";
+import { toast } from "sonner";
+import { BrandingCorner, BrandingKit } from "@/lib/types";
+import { BRANDING_CORNERS, readLogoFile } from "@/lib/recorder/branding";
+import { Slider } from "@/components/ui/slider";
+import { Captions, ImagePlus, Trash2, UserSquare } from "lucide-react";
+
+interface BrandingSettingsProps {
+  kit: BrandingKit;
+  onKitChange: (kit: BrandingKit) => void;
+  disabled?: boolean;
+}
+
+const CORNER_LABELS: Record<BrandingCorner, string> = {
+  'top-left': '↖',
+  'top-right': '↗',
+  'bottom-left': '↙',
+  'bottom-right': '↘',
+};
+
+const LOGO_SIZE_OPTIONS = [0.06, 0.1, 0.15, 0.2];
+const DEFAULT_LOGO_SIZE = 0.1;
+const DEFAULT_LOGO_OPACITY = 0.8;
+
+const selectClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+const inputClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 placeholder:text-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+function cornerClassName(active: boolean): string {
+  return `w-6 h-6 rounded text-xs transition-all disabled:opacity-50 ${
+    active ? 'bg-white/20 text-white' : 'text-neutral-400 hover:bg-white/10'
+  }`;
+}
+
+export function BrandingSettings({ kit, onKitChange, disabled = false }: BrandingSettingsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const logo = kit.logo;
+
+  const handleLogoFile = async (file: File | undefined) => {
+    if (!file) return;
+    const src = await readLogoFile(file);
+    if (!src) {
+      toast.error("Could not read that image");
+      return;
+    }
+    onKitChange({
+      ...kit,
+      logo: {
+        src,
+        corner: logo?.corner ?? 'top-right',
+        opacity: logo?.opacity ?? DEFAULT_LOGO_OPACITY,
+        size: logo?.size ?? DEFAULT_LOGO_SIZE,
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {/* Logo watermark */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            handleLogoFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-1.5 text-xs font-mono text-neutral-400 hover:text-neutral-200 disabled:opacity-50"
+          title="Logo shown in a corner of the recording"
+        >
+          {logo ? (
+            <img src={logo.src} alt="Logo" className="h-5 max-w-12 object-contain" />
+          ) : (
+            <ImagePlus className="w-3.5 h-3.5" />
+          )}
+          {logo ? 'Change logo' : 'Add logo'}
+        </button>
+        {logo && (
+          <>
+            <div className="flex gap-0.5 p-0.5 border border-neutral-800 rounded-lg">
+              {BRANDING_CORNERS.map((corner) => (
+                <button
+                  key={corner}
+                  onClick={() => onKitChange({ ...kit, logo: { ...logo, corner } })}
+                  disabled={disabled}
+                  className={cornerClassName(logo.corner === corner)}
+                  title={corner.replace('-', ' ')}
+                >
+                  {CORNER_LABELS[corner]}
+                </button>
+              ))}
+            </div>
+            <select
+              value={logo.size}
+              onChange={(e) => onKitChange({ ...kit, logo: { ...logo, size: Number(e.target.value) } })}
+              disabled={disabled}
+              aria-label="Logo size"
+              className={selectClassName}
+            >
+              {LOGO_SIZE_OPTIONS.map((size) => (
+                <option key={size} value={size}>{Math.round(size * 100)}% wide</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+              Opacity
+              <Slider
+                value={[logo.opacity]}
+                min={0.1}
+                max={1}
+                step={0.05}
+                onValueChange={(value) => onKitChange({ ...kit, logo: { ...logo, opacity: value[0] } })}
+                disabled={disabled}
+                aria-label="Logo opacity"
+                className="w-20"
+              />
+            </label>
+            <button
+              onClick={() => onKitChange({ ...kit, logo: null })}
+              disabled={disabled}
+              className="p-1 text-neutral-500 hover:text-neutral-300 disabled:opacity-50"
+              title="Remove logo"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Lower third */}
+      <div className="flex flex-wrap items-center gap-2">
+        <UserSquare className="w-3.5 h-3.5 text-neutral-400" />
+        <input
+          value={kit.lowerThird.name}
+          onChange={(e) => onKitChange({ ...kit, lowerThird: { ...kit.lowerThird, name: e.target.value } })}
+          disabled={disabled}
+          placeholder="Presenter name"
+          aria-label="Lower third name"
+          className={`${inputClassName} w-36`}
+        />
+        <input
+          value={kit.lowerThird.title}
+          onChange={(e) => onKitChange({ ...kit, lowerThird: { ...kit.lowerThird, title: e.target.value } })}
+          disabled={disabled}
+          placeholder="Title"
+          aria-label="Lower third title"
+          className={`${inputClassName} w-36`}
+        />
+        <input
+          type="color"
+          value={kit.lowerThird.color}
+          onChange={(e) => onKitChange({ ...kit, lowerThird: { ...kit.lowerThird, color: e.target.value } })}
+          disabled={disabled}
+          aria-label="Lower third accent color"
+          className="w-6 h-6 bg-transparent cursor-pointer disabled:opacity-50"
+        />
+      </div>
+
+      {/* Caption bar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+          <input
+            type="checkbox"
+            checked={kit.caption.enabled}
+            onChange={(e) => onKitChange({ ...kit, caption: { ...kit.caption, enabled: e.target.checked } })}
+            disabled={disabled}
+            className="accent-blue-500"
+          />
+          <Captions className="w-3.5 h-3.5" />
+          Caption bar
+        </label>
+        {kit.caption.enabled && (
+          <input
+            value={kit.caption.text}
+            onChange={(e) => onKitChange({ ...kit, caption: { ...kit.caption, text: e.target.value } })}
+            disabled={disabled}
+            placeholder="e.g. acme.com/demo"
+            aria-label="Caption text"
+            className={`${inputClassName} w-72`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
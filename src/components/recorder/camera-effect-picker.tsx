@@ -0,0 +1,105 @@
+"use client";
+
+import { useRef } from "react";
+import { CameraBackgroundEffect, CameraEffectSettings, DEFAULT_CAMERA_EFFECT } from "@/lib/types";
+import { Slider } from "@/components/ui/slider";
+import { Sparkles, ImageUp } from "lucide-react";
+
+interface CameraEffectPickerProps {
+  effect: CameraEffectSettings | undefined;
+  onEffectChange: (effect: CameraEffectSettings) => void;
+  disabled?: boolean;
+}
+
+const EFFECT_LABELS: Record<CameraBackgroundEffect, string> = {
+  none: 'No effect',
+  blur: 'Blur',
+  replace: 'Image',
+};
+
+const MAX_BLUR_RADIUS = 24;
+
+export function CameraEffectPicker({
+  effect = DEFAULT_CAMERA_EFFECT,
+  onEffectChange,
+  disabled = false,
+}: CameraEffectPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<CameraEffectSettings>) => onEffectChange({ ...effect, ...changes });
+
+  const handleKindChange = (kind: CameraBackgroundEffect) => {
+    if (kind === 'replace' && !effect.backgroundImageUrl) {
+      fileInputRef.current?.click();
+      return;
+    }
+    update({ kind });
+  };
+
+  const handleImageChosen = (file: File | undefined) => {
+    if (!file) return;
+    if (effect.backgroundImageUrl) URL.revokeObjectURL(effect.backgroundImageUrl);
+    update({ kind: 'replace', backgroundImageUrl: URL.createObjectURL(file) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-1.5 text-neutral-400" title="Camera background">
+        <Sparkles className="w-3.5 h-3.5" />
+      </div>
+
+      <div className="flex gap-1">
+        {(Object.keys(EFFECT_LABELS) as CameraBackgroundEffect[]).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => handleKindChange(kind)}
+            disabled={disabled}
+            className={`px-2 py-1 rounded border text-xs font-mono transition-all disabled:opacity-50 ${
+              effect.kind === kind
+                ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                : 'border-neutral-700 hover:border-neutral-600 text-neutral-400'
+            }`}
+          >
+            {EFFECT_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {effect.kind === 'blur' && (
+        <Slider
+          value={[effect.blurRadius]}
+          min={2}
+          max={MAX_BLUR_RADIUS}
+          step={1}
+          onValueChange={(value) => update({ blurRadius: value[0] })}
+          disabled={disabled}
+          aria-label="Blur strength"
+          className="w-24"
+        />
+      )}
+
+      {effect.kind === 'replace' && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-1.5 text-xs font-mono text-neutral-400 hover:text-neutral-200 disabled:opacity-50"
+          title="Choose background image"
+        >
+          <ImageUp className="w-3.5 h-3.5" />
+          Change image
+        </button>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          handleImageChosen(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
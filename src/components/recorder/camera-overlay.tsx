@@ -4,6 +4,8 @@ import { useRef, useEffect, useState, useCallback } from "react";
 import { CameraSettings, CameraPosition, CameraSize, CameraShape, CAMERA_SIZE_MAP, CAMERA_POSITION_MAP } from "@/lib/types";
 import { Move, Circle, Square, Maximize2, Minimize2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { createSegmenter } from "@/lib/recorder/camera-effects";
+import { createCameraRenderer, getBubbleOverflow } from "@/lib/recorder/camera-bubble";
 
 interface CameraOverlayProps {
   stream: MediaStream | null;
@@ -47,6 +49,8 @@ export function CameraOverlay({
   isRecording,
 }: CameraOverlayProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const settingsRef = useRef(settings);
   const overlayRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
@@ -64,6 +68,53 @@ export function CameraOverlay({
     }
   }, [stream]);
 
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // The preview goes through the compositor's camera renderer so it matches the recording exactly
+  useEffect(() => {
+    if (!stream) return;
+
+    const segmenter = createSegmenter();
+    const renderer = createCameraRenderer(segmenter);
+    let frameId: number;
+    const render = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState >= 2) {
+        const pixelRatio = window.devicePixelRatio || 1;
+        const { clientWidth, clientHeight } = canvas;
+        const width = Math.round(clientWidth * pixelRatio);
+        const height = Math.round(clientHeight * pixelRatio);
+        if (canvas.width !== width || canvas.height !== height) {
+          canvas.width = width;
+          canvas.height = height;
+        }
+        // The canvas extends past the bubble on every side to leave room for its shadow
+        const box = overlayRef.current;
+        const boxWidth = (box?.clientWidth ?? clientWidth) * pixelRatio;
+        const boxHeight = (box?.clientHeight ?? clientHeight) * pixelRatio;
+        const ctx = canvas.getContext('2d')!;
+        ctx.clearRect(0, 0, width, height);
+        renderer.drawBubble(
+          ctx,
+          video,
+          { x: (width - boxWidth) / 2, y: (height - boxHeight) / 2, width: boxWidth, height: boxHeight },
+          settingsRef.current
+        );
+      }
+      frameId = requestAnimationFrame(render);
+    };
+    render();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      renderer.dispose();
+      segmenter.dispose();
+    };
+  }, [stream]);
+
   // T003: Touch device detection with cleanup
   useEffect(() => {
     const mediaQuery = window.matchMedia('(pointer: coarse)');
@@ -203,6 +254,7 @@ export function CameraOverlay({
 
   const positionStyles = getPositionStyles();
   const sizeStyles = getSizeStyles();
+  const bubbleOverflow = getBubbleOverflow(sizeStyles.width);
 
   return (
     <div
@@ -219,21 +271,23 @@ export function CameraOverlay({
       onMouseLeave={() => !isDragging && setIsHovering(false)}
       onClick={isTouchDevice && !isRecording ? handleTouchToggle : undefined}
     >
-      <div
-        className={`w-full h-full overflow-hidden border-2 border-white/20 shadow-lg ${
-          settings.shape === 'circle' ? 'rounded-full' : 'rounded-lg'
-        }`}
-      >
-        <video
-          ref={videoRef}
-          autoPlay
-          muted
-          playsInline
-          className={`w-full h-full object-cover scale-x-[-1] ${
-            settings.shape === 'circle' ? 'rounded-full' : ''
-          }`}
-        />
-      </div>
+      {/* Source for the canvas preview only */}
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className="invisible absolute w-px h-px"
+      />
+      <canvas
+        ref={canvasRef}
+        className="absolute pointer-events-none"
+        style={{
+          inset: -bubbleOverflow,
+          width: sizeStyles.width + bubbleOverflow * 2,
+          height: sizeStyles.height + bubbleOverflow * 2,
+        }}
+      />
 
       {/* Drag indicator */}
       <div className="absolute top-2 left-2 bg-black/60 p-1.5 rounded opacity-0 group-hover:opacity-100 transition-opacity">
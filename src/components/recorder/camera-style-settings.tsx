@@ -0,0 +1,135 @@
+"use client";
+
+import { CameraSettings, CameraShape } from "@/lib/types";
+import { MIN_CAMERA_ZOOM, MAX_CAMERA_ZOOM } from "@/lib/recorder/camera-bubble";
+import { Slider } from "@/components/ui/slider";
+import { Circle, FlipHorizontal2, RectangleHorizontal, SquareRoundCorner, Squircle, ZoomIn } from "lucide-react";
+
+interface CameraStyleSettingsProps {
+  settings: CameraSettings;
+  onSettingsChange: (settings: Partial<CameraSettings>) => void;
+  disabled?: boolean;
+}
+
+const SHAPE_OPTIONS: { shape: CameraShape; label: string; icon: typeof Circle }[] = [
+  { shape: 'rectangle', label: 'Rectangle', icon: RectangleHorizontal },
+  { shape: 'rounded-square', label: 'Rounded square', icon: SquareRoundCorner },
+  { shape: 'squircle', label: 'Squircle', icon: Squircle },
+  { shape: 'circle', label: 'Circle', icon: Circle },
+];
+
+const BORDER_WIDTH_OPTIONS = [0, 1, 2, 4, 6];
+
+const selectClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+function toggleClassName(active: boolean): string {
+  return `p-1.5 rounded transition-all disabled:opacity-50 ${
+    active ? 'bg-white/20 text-white' : 'text-neutral-400 hover:bg-white/10'
+  }`;
+}
+
+export function CameraStyleSettings({ settings, onSettingsChange, disabled = false }: CameraStyleSettingsProps) {
+  const zoom = settings.zoom ?? 1;
+  const cropOffset = settings.cropOffset ?? { x: 0, y: 0 };
+  const mirror = settings.mirror !== false;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex gap-1 p-1 border border-neutral-800 rounded-lg">
+        {SHAPE_OPTIONS.map(({ shape, label, icon: Icon }) => (
+          <button
+            key={shape}
+            onClick={() => onSettingsChange({ shape })}
+            disabled={disabled}
+            className={toggleClassName(settings.shape === shape)}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onSettingsChange({ mirror: !mirror })}
+        disabled={disabled}
+        className={toggleClassName(mirror)}
+        title={mirror ? 'Mirrored (click to show as others see you)' : 'Not mirrored'}
+      >
+        <FlipHorizontal2 className="w-4 h-4" />
+      </button>
+
+      <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+        Border
+        <input
+          type="color"
+          value={settings.borderColor?.startsWith('#') ? settings.borderColor : '#ffffff'}
+          onChange={(e) => onSettingsChange({ borderColor: e.target.value })}
+          disabled={disabled}
+          aria-label="Border color"
+          className="w-6 h-6 bg-transparent cursor-pointer disabled:opacity-50"
+        />
+        <select
+          value={settings.borderWidth ?? 2}
+          onChange={(e) => onSettingsChange({ borderWidth: Number(e.target.value) })}
+          disabled={disabled}
+          aria-label="Border width"
+          className={selectClassName}
+        >
+          {BORDER_WIDTH_OPTIONS.map((width) => (
+            <option key={width} value={width}>{width === 0 ? 'None' : `${width}px`}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+        <input
+          type="checkbox"
+          checked={!!settings.shadow}
+          onChange={(e) => onSettingsChange({ shadow: e.target.checked })}
+          disabled={disabled}
+          className="accent-blue-500"
+        />
+        Shadow
+      </label>
+
+      <div className="flex items-center gap-2 text-neutral-400" title="Zoom into the camera so your face fills the bubble">
+        <ZoomIn className="w-3.5 h-3.5" />
+        <Slider
+          value={[zoom]}
+          min={MIN_CAMERA_ZOOM}
+          max={MAX_CAMERA_ZOOM}
+          step={0.05}
+          onValueChange={(value) => onSettingsChange({ zoom: value[0] })}
+          disabled={disabled}
+          aria-label="Camera zoom"
+          className="w-20"
+        />
+        {zoom > MIN_CAMERA_ZOOM && (
+          <>
+            <Slider
+              value={[cropOffset.x]}
+              min={-1}
+              max={1}
+              step={0.05}
+              onValueChange={(value) => onSettingsChange({ cropOffset: { ...cropOffset, x: value[0] } })}
+              disabled={disabled}
+              aria-label="Crop horizontal position"
+              className="w-16"
+            />
+            <Slider
+              value={[cropOffset.y]}
+              min={-1}
+              max={1}
+              step={0.05}
+              onValueChange={(value) => onSettingsChange({ cropOffset: { ...cropOffset, y: value[0] } })}
+              disabled={disabled}
+              aria-label="Crop vertical position"
+              className="w-16"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { ChromaKey, DEFAULT_CHROMA_KEY } from "@/lib/types";
+import { Slider } from "@/components/ui/slider";
+import { Pipette } from "lucide-react";
+
+interface ChromaKeySettingsProps {
+  chromaKey: ChromaKey | undefined;
+  onChromaKeyChange: (chromaKey: ChromaKey) => void;
+  disabled?: boolean;
+}
+
+const KEY_COLOR_PRESETS = [
+  { label: 'Green', color: '#00b140' },
+  { label: 'Blue', color: '#0047bb' },
+];
+
+export function ChromaKeySettings({
+  chromaKey = DEFAULT_CHROMA_KEY,
+  onChromaKeyChange,
+  disabled = false,
+}: ChromaKeySettingsProps) {
+  const update = (changes: Partial<ChromaKey>) => onChromaKeyChange({ ...chromaKey, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        onClick={() => update({ enabled: !chromaKey.enabled })}
+        disabled={disabled}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded border text-xs font-mono transition-all disabled:opacity-50 ${
+          chromaKey.enabled
+            ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+            : 'border-neutral-700 hover:border-neutral-600 text-neutral-400'
+        }`}
+        title="Remove a green or blue backdrop behind the presenter"
+      >
+        <Pipette className="w-3.5 h-3.5" />
+        Chroma key
+      </button>
+
+      {chromaKey.enabled && (
+        <>
+          <div className="flex items-center gap-1">
+            {KEY_COLOR_PRESETS.map(({ label, color }) => (
+              <button
+                key={color}
+                onClick={() => update({ color })}
+                disabled={disabled}
+                className={`w-5 h-5 rounded-full border-2 disabled:opacity-50 ${
+                  chromaKey.color === color ? 'border-white' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: color }}
+                title={label}
+              />
+            ))}
+            <input
+              type="color"
+              value={chromaKey.color}
+              onChange={(e) => update({ color: e.target.value })}
+              disabled={disabled}
+              aria-label="Key color"
+              className="w-6 h-6 bg-transparent cursor-pointer disabled:opacity-50"
+            />
+          </div>
+
+          <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+            Tolerance
+            <Slider
+              value={[chromaKey.tolerance]}
+              min={0}
+              max={1}
+              step={0.01}
+              onValueChange={(value) => update({ tolerance: value[0] })}
+              disabled={disabled}
+              aria-label="Key tolerance"
+              className="w-20"
+            />
+          </label>
+
+          <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+            Spill
+            <Slider
+              value={[chromaKey.spillSuppression]}
+              min={0}
+              max={1}
+              step={0.01}
+              onValueChange={(value) => update({ spillSuppression: value[0] })}
+              disabled={disabled}
+              aria-label="Spill suppression"
+              className="w-20"
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
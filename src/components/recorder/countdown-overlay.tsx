@@ -0,0 +1,25 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+
+interface CountdownOverlayProps {
+  secondsLeft: number;
+  onCancel: () => void;
+}
+
+export function CountdownOverlay({ secondsLeft, onCancel }: CountdownOverlayProps) {
+  return (
+    <div className="absolute inset-0 z-[70] flex flex-col items-center justify-center gap-6 bg-black/70 backdrop-blur-sm">
+      <span
+        key={secondsLeft}
+        className="font-mono text-7xl text-white animate-in zoom-in-50 fade-in duration-300"
+      >
+        {secondsLeft}
+      </span>
+      <p className="font-mono text-xs text-neutral-400">Recording starts in {secondsLeft}s</p>
+      <Button variant="outline" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
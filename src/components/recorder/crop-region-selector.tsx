@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Maximize } from "lucide-react";
+import { AnnotationPoint } from "@/lib/recorder/annotations";
+import { ViewportRect } from "@/lib/recorder/viewport";
+import { MIN_CROP_SIZE, clampCropRegion, getCropSize } from "@/lib/recorder/crop";
+import { toCanvasPoint } from "./annotation-surface";
+
+interface CropRegionSelectorProps {
+  /** The shared display, before anything is composited */
+  stream: MediaStream;
+  displaySize: { width: number; height: number };
+  /** Current crop, normalized to the display; null records the whole display */
+  region: ViewportRect | null;
+  onRegionChange: (region: ViewportRect | null) => void;
+  onDone: () => void;
+}
+
+type Drag =
+  | { kind: 'draw'; start: AnnotationPoint; end: AnnotationPoint }
+  | { kind: 'move'; start: AnnotationPoint; origin: ViewportRect };
+
+function toRect(start: AnnotationPoint, end: AnnotationPoint): ViewportRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+function containsPoint(rect: ViewportRect, point: AnnotationPoint): boolean {
+  return point.x >= rect.x && point.x <= rect.x + rect.width &&
+    point.y >= rect.y && point.y <= rect.y + rect.height;
+}
+
+/**
+ * Live view of the shared display where the presenter drags out the part to
+ * record, or drags the existing box to move it.
+ */
+export function CropRegionSelector({ stream, displaySize, region, onRegionChange, onDone }: CropRegionSelectorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [bounds, setBounds] = useState<{ width: number; height: number } | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const aspectRatio = displaySize.width / displaySize.height;
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch((e) => {
+        if (e.name !== 'AbortError') console.error('Crop preview play failed:', e);
+      });
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    if (!surface) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBounds({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(surface);
+    return () => observer.disconnect();
+  }, []);
+
+  const shownRegion = (() => {
+    if (drag?.kind === 'draw') return toRect(drag.start, drag.end);
+    return region;
+  })();
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY);
+    setDrag(region && containsPoint(region, point)
+      ? { kind: 'move', start: point, origin: region }
+      : { kind: 'draw', start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY);
+    if (drag.kind === 'draw') {
+      setDrag({ ...drag, end: point });
+    } else {
+      onRegionChange(clampCropRegion({
+        ...drag.origin,
+        x: drag.origin.x + point.x - drag.start.x,
+        y: drag.origin.y + point.y - drag.start.y,
+      }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.kind === 'draw') {
+      const rect = toRect(drag.start, drag.end);
+      if (rect.width >= MIN_CROP_SIZE && rect.height >= MIN_CROP_SIZE) {
+        onRegionChange(clampCropRegion(rect));
+      }
+    }
+    setDrag(null);
+  };
+
+  // Region box is drawn over the letterboxed video content area
+  const regionStyle = (() => {
+    if (!shownRegion || !bounds) return null;
+    const { width, height } = bounds;
+    const contentWidth = width / height > aspectRatio ? height * aspectRatio : width;
+    const contentHeight = width / height > aspectRatio ? height : width / aspectRatio;
+    return {
+      left: (width - contentWidth) / 2 + shownRegion.x * contentWidth,
+      top: (height - contentHeight) / 2 + shownRegion.y * contentHeight,
+      width: shownRegion.width * contentWidth,
+      height: shownRegion.height * contentHeight,
+    };
+  })();
+
+  const croppedSize = getCropSize(displaySize, region);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className="w-full h-full object-contain"
+      />
+      <div
+        ref={surfaceRef}
+        className={`absolute inset-0 touch-none overflow-hidden ${drag?.kind === 'move' ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        {regionStyle && (
+          <div
+            className="absolute border-2 border-blue-400 cursor-grab pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+            style={regionStyle}
+          />
+        )}
+      </div>
+      <p className="absolute top-3 left-1/2 -translate-x-1/2 px-2 py-1 rounded bg-black/70 font-mono text-xs text-neutral-300 pointer-events-none">
+        Drag to choose the part of the screen to record
+      </p>
+      <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2 px-2 py-1 rounded bg-black/70">
+        <span className="font-mono text-xs text-neutral-300">
+          {croppedSize.width}×{croppedSize.height}
+          {region && <span className="text-neutral-500"> of {displaySize.width}×{displaySize.height}</span>}
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => onRegionChange(null)} disabled={!region}>
+          <Maximize className="w-3.5 h-3.5 mr-1" />
+          Whole screen
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type { LucideIcon } from "lucide-react";
+
+interface DeviceSelectorProps {
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string | undefined) => void;
+  icon: LucideIcon;
+  label: string;
+  disabled?: boolean;
+}
+
+export function DeviceSelector({
+  devices,
+  value,
+  onChange,
+  icon: Icon,
+  label,
+  disabled = false,
+}: DeviceSelectorProps) {
+  if (devices.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-1.5 text-neutral-400" title={label}>
+      <Icon className="w-3.5 h-3.5 shrink-0" />
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={disabled}
+        aria-label={label}
+        className="max-w-[160px] truncate bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50"
+      >
+        <option value="">Default</option>
+        {devices.map((device, index) => (
+          <option key={device.deviceId || index} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useRef, useEffect, useState } from "react";
+import { AnnotationPoint } from "@/lib/recorder/annotations";
+import { ViewportRect } from "@/lib/recorder/viewport";
+import { toCanvasPoint } from "./annotation-surface";
+
+interface FocusSurfaceProps {
+  stream: MediaStream;
+  aspectRatio: number;
+  /** Receives the dragged rectangle, normalized to the output canvas */
+  onSelect: (region: ViewportRect) => void;
+}
+
+/** Drags shorter than this (normalized) are treated as clicks and ignored */
+const MIN_SELECTION_SIZE = 0.02;
+
+function toRect(start: AnnotationPoint, end: AnnotationPoint): ViewportRect {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/**
+ * Live view of the composited output where the presenter drags out the region
+ * to zoom into or spotlight.
+ */
+export function FocusSurface({ stream, aspectRatio, onSelect }: FocusSurfaceProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [selection, setSelection] = useState<{
+    start: AnnotationPoint;
+    end: AnnotationPoint;
+    bounds: { width: number; height: number };
+  } | null>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch((e) => {
+        if (e.name !== 'AbortError') console.error('Focus preview play failed:', e);
+      });
+    }
+  }, [stream]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY);
+    const { width, height } = e.currentTarget.getBoundingClientRect();
+    setSelection({ start: point, end: point, bounds: { width, height } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!selection) return;
+    const point = toCanvasPoint(e.currentTarget, aspectRatio, e.clientX, e.clientY);
+    setSelection({ ...selection, end: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!selection) return;
+    const region = toRect(selection.start, selection.end);
+    setSelection(null);
+    if (region.width >= MIN_SELECTION_SIZE && region.height >= MIN_SELECTION_SIZE) {
+      onSelect(region);
+    }
+  };
+
+  // Selection box is drawn over the letterboxed video content area
+  const selectionStyle = (() => {
+    if (!selection) return null;
+    const { width, height } = selection.bounds;
+    const contentWidth = width / height > aspectRatio ? height * aspectRatio : width;
+    const contentHeight = width / height > aspectRatio ? height : width / aspectRatio;
+    const rect = toRect(selection.start, selection.end);
+    return {
+      left: (width - contentWidth) / 2 + rect.x * contentWidth,
+      top: (height - contentHeight) / 2 + rect.y * contentHeight,
+      width: rect.width * contentWidth,
+      height: rect.height * contentHeight,
+    };
+  })();
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className="w-full h-full object-contain"
+      />
+      <div
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setSelection(null)}
+      >
+        {selectionStyle && (
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+            style={selectionStyle}
+          />
+        )}
+      </div>
+      <p className="absolute top-3 left-1/2 -translate-x-1/2 px-2 py-1 rounded bg-black/70 font-mono text-xs text-neutral-300 pointer-events-none">
+        Drag to choose the focus region
+      </p>
+    </div>
+  );
+}
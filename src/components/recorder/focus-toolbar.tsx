@@ -0,0 +1,55 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Crop, ZoomIn, ZoomOut, Flashlight } from "lucide-react";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
+
+interface FocusToolbarProps {
+  isSelecting: boolean;
+  onToggleSelecting: () => void;
+  isZoomed: boolean;
+  onToggleZoom: () => void;
+  isSpotlightOn: boolean;
+  onToggleSpotlight: () => void;
+}
+
+export function FocusToolbar({
+  isSelecting,
+  onToggleSelecting,
+  isZoomed,
+  onToggleZoom,
+  isSpotlightOn,
+  onToggleSpotlight,
+}: FocusToolbarProps) {
+  const bindings = useShortcutBindings();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant={isSelecting ? "default" : "outline"}
+        size="icon"
+        onClick={onToggleSelecting}
+        title="Select focus region"
+      >
+        <Crop className="w-4 h-4" />
+      </Button>
+      <Button
+        variant={isZoomed ? "default" : "outline"}
+        size="icon"
+        onClick={onToggleZoom}
+        title={`${isZoomed ? 'Zoom out' : 'Zoom in'} (${formatBinding(bindings['recorder.toggleZoom'])})`}
+      >
+        {isZoomed ? <ZoomOut className="w-4 h-4" /> : <ZoomIn className="w-4 h-4" />}
+      </Button>
+      <Button
+        variant={isSpotlightOn ? "default" : "outline"}
+        size="icon"
+        onClick={onToggleSpotlight}
+        title={`Spotlight (${formatBinding(bindings['recorder.toggleSpotlight'])})`}
+      >
+        <Flashlight className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
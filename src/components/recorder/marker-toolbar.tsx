@@ -0,0 +1,53 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Bookmark, RotateCcw } from "lucide-react";
+import { MarkerKind, RecordingMarker } from "@/lib/types";
+import { formatTime } from "@/lib/editor/timeline";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
+
+interface MarkerToolbarProps {
+  markers: RecordingMarker[];
+  onAddMarker: (kind: MarkerKind) => void;
+  onLabelChange: (id: string, label: string) => void;
+}
+
+export function MarkerToolbar({ markers, onAddMarker, onLabelChange }: MarkerToolbarProps) {
+  const bindings = useShortcutBindings();
+  const lastMarker = markers[markers.length - 1];
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => onAddMarker('highlight')}
+        title={`Mark an important moment (${formatBinding(bindings['recorder.markHighlight'])})`}
+      >
+        <Bookmark className="w-4 h-4 text-amber-400" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => onAddMarker('redo')}
+        title={`Mark a part to redo (${formatBinding(bindings['recorder.markRedo'])})`}
+      >
+        <RotateCcw className="w-4 h-4 text-red-400" />
+      </Button>
+      {lastMarker && (
+        <input
+          key={lastMarker.id}
+          defaultValue={lastMarker.label ?? ''}
+          onChange={(e) => onLabelChange(lastMarker.id, e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+          }}
+          placeholder={`Label ${formatTime(lastMarker.time)} marker`}
+          aria-label="Label the last marker"
+          className="w-40 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 placeholder:text-neutral-600 focus:outline-none focus:border-blue-500"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, AlertTriangle, CheckCircle, Circle, Loader2, Mic, Play, RefreshCw } from "lucide-react";
+import { createAudioAnalyser, getAudioLevel, getMicrophoneStream, isMicError, stopAudioStream } from "@/lib/recorder/audio";
+import { getCameraStream, isCameraError } from "@/lib/recorder/camera";
+import {
+  PreflightCheck,
+  PreflightCheckId,
+  PreflightStatus,
+  checkMicrophoneSignal,
+  checkRecordingFormat,
+  checkStorage,
+  getCameraErrorCheck,
+  recordLoopback,
+} from "@/lib/recorder/preflight";
+
+interface PreflightPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Starts the recording; the panel closes itself first */
+  onStart: () => void;
+  microphoneEnabled: boolean;
+  microphoneDeviceId?: string;
+  cameraRequired: boolean;
+  cameraDeviceId?: string;
+  /** The recorder's camera preview stream, if it is already running */
+  cameraStream: MediaStream | null;
+  audioOnly: boolean;
+  bytesPerMinute: number;
+  checkBeforeRecording: boolean;
+  onCheckBeforeRecordingChange: (enabled: boolean) => void;
+}
+
+const CHECK_LABELS: Record<PreflightCheckId, string> = {
+  microphone: 'Microphone',
+  camera: 'Camera',
+  storage: 'Storage',
+  format: 'Format',
+};
+
+const LOOPBACK_SECONDS = 3;
+
+function pendingCheck(id: PreflightCheckId): PreflightCheck {
+  return { id, status: 'pending', message: 'Checking...' };
+}
+
+function StatusIcon({ status }: { status: PreflightStatus }) {
+  switch (status) {
+    case 'ok':
+      return <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />;
+    case 'warning':
+      return <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />;
+    default:
+      return <Loader2 className="w-4 h-4 animate-spin text-blue-500 shrink-0" />;
+  }
+}
+
+function MicLevelBar({ stream }: { stream: MediaStream }) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    const audioContext = new AudioContext();
+    const analyser = createAudioAnalyser(audioContext, stream);
+    let frame: number | null = null;
+
+    const update = () => {
+      if (analyser) setLevel(getAudioLevel(analyser));
+      frame = requestAnimationFrame(update);
+    };
+    update();
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="flex-1 h-2 bg-neutral-800 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-green-500 transition-all duration-75"
+        style={{ width: `${Math.min(100, level * 300)}%` }}
+      />
+    </div>
+  );
+}
+
+function CameraPreview({ stream }: { stream: MediaStream }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    videoRef.current.srcObject = stream;
+    videoRef.current.play().catch((e) => {
+      if (e.name !== 'AbortError') console.error('Pre-flight camera preview failed:', e);
+    });
+  }, [stream]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      muted
+      playsInline
+      className="w-full aspect-video rounded border border-neutral-800 bg-black object-cover scale-x-[-1]"
+    />
+  );
+}
+
+/**
+ * Device check shown before recording starts: mic level and loopback, camera
+ * preview, free storage and the recording format. Problems are flagged, but
+ * the presenter can still choose to record.
+ */
+export function PreflightPanel({
+  open,
+  onOpenChange,
+  onStart,
+  microphoneEnabled,
+  microphoneDeviceId,
+  cameraRequired,
+  cameraDeviceId,
+  cameraStream,
+  audioOnly,
+  bytesPerMinute,
+  checkBeforeRecording,
+  onCheckBeforeRecordingChange,
+}: PreflightPanelProps) {
+  const [checks, setChecks] = useState<Partial<Record<PreflightCheckId, PreflightCheck>>>({});
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const [probeCameraStream, setProbeCameraStream] = useState<MediaStream | null>(null);
+  const [loopbackUrl, setLoopbackUrl] = useState<string | null>(null);
+  const [isRecordingLoopback, setIsRecordingLoopback] = useState(false);
+  const [runId, setRunId] = useState(0);
+
+  const setCheck = useCallback((check: PreflightCheck) => {
+    setChecks(prev => ({ ...prev, [check.id]: check }));
+  }, []);
+
+  // Mic, storage and format checks; re-run on open and on "Check again"
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    let acquiredMic: MediaStream | null = null;
+    setCheck(checkRecordingFormat(audioOnly));
+    setCheck(pendingCheck('storage'));
+    checkStorage(bytesPerMinute).then(check => {
+      if (!cancelled) setCheck(check);
+    });
+
+    if (microphoneEnabled) {
+      setCheck(pendingCheck('microphone'));
+      getMicrophoneStream(microphoneDeviceId).then(async result => {
+        if (cancelled) {
+          if (!isMicError(result)) stopAudioStream(result);
+          return;
+        }
+        if (!isMicError(result)) {
+          acquiredMic = result;
+          setMicStream(result);
+        }
+        const check = await checkMicrophoneSignal(result);
+        if (!cancelled) setCheck(check);
+      });
+    } else {
+      setCheck({
+        id: 'microphone',
+        status: audioOnly ? 'error' : 'warning',
+        message: audioOnly ? 'The microphone is off; there is nothing to record.' : 'The microphone is off.',
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      stopAudioStream(acquiredMic);
+      setMicStream(null);
+    };
+  }, [open, runId, microphoneEnabled, microphoneDeviceId, audioOnly, bytesPerMinute, setCheck]);
+
+  // Camera: reuse the recorder's preview, or probe the device to learn why it is missing
+  useEffect(() => {
+    if (!open) return;
+    if (!cameraRequired) {
+      setChecks(prev => ({ ...prev, camera: undefined }));
+      return;
+    }
+    if (cameraStream) {
+      const label = cameraStream.getVideoTracks()[0]?.label;
+      setCheck({ id: 'camera', status: 'ok', message: `${label || 'Camera'} is ready.` });
+      return;
+    }
+
+    let cancelled = false;
+    let probe: MediaStream | null = null;
+    setCheck(pendingCheck('camera'));
+    getCameraStream(cameraDeviceId).then(result => {
+      if (isCameraError(result)) {
+        if (!cancelled) setCheck(getCameraErrorCheck(result));
+        return;
+      }
+      if (cancelled) {
+        result.cleanup();
+        return;
+      }
+      probe = result.stream;
+      setProbeCameraStream(result.stream);
+      setCheck({ id: 'camera', status: 'ok', message: `${result.stream.getVideoTracks()[0]?.label || 'Camera'} is ready.` });
+    });
+
+    return () => {
+      cancelled = true;
+      probe?.getTracks().forEach(track => track.stop());
+      setProbeCameraStream(null);
+    };
+  }, [open, runId, cameraRequired, cameraDeviceId, cameraStream, setCheck]);
+
+  useEffect(() => {
+    if (!loopbackUrl) return;
+    return () => URL.revokeObjectURL(loopbackUrl);
+  }, [loopbackUrl]);
+
+  useEffect(() => {
+    if (!open) setLoopbackUrl(null);
+  }, [open]);
+
+  const handleLoopback = async () => {
+    if (!micStream) return;
+    setIsRecordingLoopback(true);
+    setLoopbackUrl(null);
+    const blob = await recordLoopback(micStream, LOOPBACK_SECONDS * 1000);
+    setIsRecordingLoopback(false);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setLoopbackUrl(url);
+    new Audio(url).play().catch((e) => console.warn('Loopback playback failed:', e));
+  };
+
+  const results = (Object.keys(CHECK_LABELS) as PreflightCheckId[])
+    .map(id => checks[id])
+    .filter((check): check is PreflightCheck => check !== undefined);
+  const isChecking = results.some(check => check.status === 'pending');
+  const hasProblems = results.some(check => check.status === 'error' || check.status === 'warning');
+  const previewStream = cameraStream ?? probeCameraStream;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-mono">Pre-flight check</DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Make sure you can be seen and heard before you record
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {cameraRequired && previewStream && <CameraPreview stream={previewStream} />}
+
+          {micStream && (
+            <div className="flex items-center gap-2">
+              <Mic className="w-4 h-4 text-neutral-400 shrink-0" />
+              <MicLevelBar stream={micStream} />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLoopback}
+                disabled={isRecordingLoopback}
+                title={`Record ${LOOPBACK_SECONDS} seconds and play them back`}
+              >
+                {isRecordingLoopback ? (
+                  <Circle className="w-3.5 h-3.5 mr-1 fill-red-500 text-red-500 animate-pulse" />
+                ) : (
+                  <Play className="w-3.5 h-3.5 mr-1" />
+                )}
+                {isRecordingLoopback ? 'Speak now...' : 'Test'}
+              </Button>
+            </div>
+          )}
+          {loopbackUrl && <audio src={loopbackUrl} controls className="w-full h-8" />}
+
+          <ul className="space-y-2">
+            {results.map((check) => (
+              <li key={check.id} className="flex items-start gap-2 text-xs font-mono">
+                <StatusIcon status={check.status} />
+                <span className="text-neutral-400 w-20 shrink-0">{CHECK_LABELS[check.id]}</span>
+                <span className="text-neutral-300">{check.message}</span>
+              </li>
+            ))}
+          </ul>
+
+          <label className="flex items-center gap-1.5 text-xs font-mono text-neutral-500">
+            <input
+              type="checkbox"
+              checked={checkBeforeRecording}
+              onChange={(e) => onCheckBeforeRecordingChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Check devices before every recording
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setRunId(id => id + 1)} disabled={isChecking}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Check again
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onOpenChange(false);
+              onStart();
+            }}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            <Circle className="w-4 h-4 mr-2 fill-current" />
+            {hasProblems ? 'Record anyway' : 'Record'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { CaptureQuality, CaptureResolution, QualityPreset, QUALITY_PRESETS } from "@/lib/types";
+import { Gauge } from "lucide-react";
+
+interface QualitySettingsProps {
+  quality: CaptureQuality;
+  onQualityChange: (quality: CaptureQuality) => void;
+  disabled?: boolean;
+}
+
+const PRESET_LABELS: Record<QualityPreset, string> = {
+  compact: 'Compact',
+  standard: 'Standard',
+  high: 'High (60fps)',
+  custom: 'Custom',
+};
+
+const RESOLUTION_OPTIONS: CaptureResolution[] = ['source', '1440p', '1080p', '720p', '480p'];
+const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+const AUDIO_BITRATE_OPTIONS = [64_000, 96_000, 128_000, 192_000, 256_000];
+
+export function formatQualitySummary(quality: CaptureQuality): string {
+  const resolution = quality.resolution === 'source' ? 'Native' : quality.resolution;
+  const videoMbps = quality.videoBitsPerSecond / 1_000_000;
+  return `${resolution} · ${quality.frameRate}fps · ${videoMbps} Mbps · ${quality.audioBitsPerSecond / 1000} kbps`;
+}
+
+function estimateMegabytesPerMinute(quality: CaptureQuality): number {
+  return ((quality.videoBitsPerSecond + quality.audioBitsPerSecond) / 8) * 60 / 1_000_000;
+}
+
+const selectClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+export function QualitySettings({ quality, onQualityChange, disabled = false }: QualitySettingsProps) {
+  const handlePresetChange = (preset: QualityPreset) => {
+    if (preset === 'custom') {
+      onQualityChange({ ...quality, preset });
+    } else {
+      onQualityChange({ preset, ...QUALITY_PRESETS[preset] });
+    }
+  };
+
+  const handleCustomChange = (changes: Partial<CaptureQuality>) => {
+    onQualityChange({ ...quality, ...changes, preset: 'custom' });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-1.5 text-neutral-400" title="Recording quality">
+        <Gauge className="w-3.5 h-3.5" />
+      </div>
+
+      <div className="flex gap-1">
+        {(Object.keys(PRESET_LABELS) as QualityPreset[]).map((preset) => (
+          <button
+            key={preset}
+            onClick={() => handlePresetChange(preset)}
+            disabled={disabled}
+            className={`px-2 py-1 rounded border text-xs font-mono transition-all disabled:opacity-50 ${
+              quality.preset === preset
+                ? 'border-blue-500 bg-blue-500/10 text-blue-400'
+                : 'border-neutral-700 hover:border-neutral-600 text-neutral-400'
+            }`}
+          >
+            {PRESET_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+
+      {quality.preset === 'custom' ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={quality.resolution}
+            onChange={(e) => handleCustomChange({ resolution: e.target.value as CaptureResolution })}
+            disabled={disabled}
+            aria-label="Output resolution"
+            className={selectClassName}
+          >
+            {RESOLUTION_OPTIONS.map((resolution) => (
+              <option key={resolution} value={resolution}>
+                {resolution === 'source' ? 'Native' : resolution}
+              </option>
+            ))}
+          </select>
+          <select
+            value={quality.frameRate}
+            onChange={(e) => handleCustomChange({ frameRate: Number(e.target.value) })}
+            disabled={disabled}
+            aria-label="Frame rate"
+            className={selectClassName}
+          >
+            {FRAME_RATE_OPTIONS.map((fps) => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs font-mono text-neutral-500">
+            <input
+              type="number"
+              min={0.25}
+              max={50}
+              step={0.25}
+              value={quality.videoBitsPerSecond / 1_000_000}
+              onChange={(e) => {
+                const mbps = Number(e.target.value);
+                if (mbps > 0) handleCustomChange({ videoBitsPerSecond: Math.round(mbps * 1_000_000) });
+              }}
+              disabled={disabled}
+              aria-label="Video bitrate in Mbps"
+              className={`${selectClassName} w-16`}
+            />
+            Mbps
+          </label>
+          <select
+            value={quality.audioBitsPerSecond}
+            onChange={(e) => handleCustomChange({ audioBitsPerSecond: Number(e.target.value) })}
+            disabled={disabled}
+            aria-label="Audio bitrate"
+            className={selectClassName}
+          >
+            {AUDIO_BITRATE_OPTIONS.map((bitrate) => (
+              <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <span className="text-xs font-mono text-neutral-500">
+          {formatQualitySummary(quality)}
+        </span>
+      )}
+
+      <span className="text-xs font-mono text-neutral-600">
+        ~{estimateMegabytesPerMinute(quality).toFixed(1)} MB/min
+      </span>
+    </div>
+  );
+}
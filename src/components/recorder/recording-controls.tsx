@@ -3,6 +3,8 @@
 import { Button } from "@/components/ui/button";
 import { Circle, Square, Pause, Play, Video, VideoOff, RotateCcw } from "lucide-react";
 import { RecordingState } from "@/lib/types";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding } from "@/lib/shortcuts";
 
 interface RecordingControlsProps {
   recordingState: RecordingState;
@@ -33,7 +35,8 @@ export function RecordingControls({
   onToggleCamera,
   onNewRecording,
 }: RecordingControlsProps) {
-  const { isRecording, isPaused, duration } = recordingState;
+  const { isRecording, isPaused, duration, timeRemaining } = recordingState;
+  const bindings = useShortcutBindings();
 
   return (
     <div className="flex items-center justify-between w-full">
@@ -44,7 +47,7 @@ export function RecordingControls({
           size="icon"
           onClick={onToggleCamera}
           disabled={isRecording}
-          title={cameraEnabled ? "Disable camera" : "Enable camera"}
+          title={`${cameraEnabled ? "Disable" : "Enable"} camera (${formatBinding(bindings['recorder.toggleCamera'])})`}
         >
           {cameraEnabled ? (
             <Video className="h-4 w-4" />
@@ -64,6 +67,14 @@ export function RecordingControls({
               <span className="font-mono text-sm text-neutral-300">
                 {formatDuration(duration)}
               </span>
+              {timeRemaining !== null && (
+                <span
+                  className={`font-mono text-xs ${timeRemaining <= 30 ? 'text-yellow-500' : 'text-neutral-500'}`}
+                  title="Time remaining before auto-stop"
+                >
+                  {formatDuration(timeRemaining)} left
+                </span>
+              )}
             </div>
 
             {/* Pause/Resume */}
@@ -71,7 +82,7 @@ export function RecordingControls({
               variant="outline"
               size="icon"
               onClick={isPaused ? onResumeRecording : onPauseRecording}
-              title={isPaused ? "Resume recording" : "Pause recording"}
+              title={`${isPaused ? "Resume" : "Pause"} recording (${formatBinding(bindings['recorder.togglePause'])})`}
             >
               {isPaused ? (
                 <Play className="h-4 w-4" />
@@ -84,6 +95,7 @@ export function RecordingControls({
             <Button
               variant="destructive"
               onClick={onStopRecording}
+              title={`Stop recording (${formatBinding(bindings['recorder.toggleRecording'])})`}
             >
               <Square className="h-4 w-4 mr-2" />
               Stop
@@ -104,6 +116,7 @@ export function RecordingControls({
             <Button
               variant="default"
               onClick={onStartRecording}
+              title={`Start recording (${formatBinding(bindings['recorder.toggleRecording'])})`}
               className="bg-red-600 hover:bg-red-700"
             >
               <Circle className="h-4 w-4 mr-2 fill-current" />
@@ -0,0 +1,87 @@
+"use client";
+
+import { CountdownSeconds, RecordingLimits } from "@/lib/types";
+import { Timer, Clock, HardDrive } from "lucide-react";
+
+interface RecordingLimitsSettingsProps {
+  limits: RecordingLimits;
+  onLimitsChange: (limits: RecordingLimits) => void;
+  disabled?: boolean;
+}
+
+const COUNTDOWN_OPTIONS: CountdownSeconds[] = [0, 3, 5, 10];
+const MAX_DURATION_OPTIONS = [60, 5 * 60, 10 * 60, 30 * 60, 60 * 60];
+const MAX_SIZE_OPTIONS = [25, 100, 250, 500, 1000].map(mb => mb * 1024 * 1024);
+
+const selectClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500 disabled:opacity-50";
+
+function formatMegabytes(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return mb >= 1000 ? `${(mb / 1024).toFixed(0)} GB` : `${mb} MB`;
+}
+
+export function RecordingLimitsSettings({
+  limits,
+  onLimitsChange,
+  disabled = false,
+}: RecordingLimitsSettingsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <label className="flex items-center gap-1.5 text-neutral-400" title="Countdown before recording starts">
+        <Timer className="w-3.5 h-3.5" />
+        <select
+          value={limits.countdownSeconds}
+          onChange={(e) => onLimitsChange({ ...limits, countdownSeconds: Number(e.target.value) as CountdownSeconds })}
+          disabled={disabled}
+          aria-label="Countdown"
+          className={selectClassName}
+        >
+          {COUNTDOWN_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds === 0 ? 'No countdown' : `${seconds}s countdown`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1.5 text-neutral-400" title="Stop automatically after this long">
+        <Clock className="w-3.5 h-3.5" />
+        <select
+          value={limits.maxDurationSeconds ?? ''}
+          onChange={(e) => onLimitsChange({
+            ...limits,
+            maxDurationSeconds: e.target.value ? Number(e.target.value) : null,
+          })}
+          disabled={disabled}
+          aria-label="Maximum duration"
+          className={selectClassName}
+        >
+          <option value="">No time limit</option>
+          {MAX_DURATION_OPTIONS.map((seconds) => (
+            <option key={seconds} value={seconds}>Max {seconds / 60} min</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-1.5 text-neutral-400" title="Stop automatically at this file size">
+        <HardDrive className="w-3.5 h-3.5" />
+        <select
+          value={limits.maxFileSizeBytes ?? ''}
+          onChange={(e) => onLimitsChange({
+            ...limits,
+            maxFileSizeBytes: e.target.value ? Number(e.target.value) : null,
+          })}
+          disabled={disabled}
+          aria-label="Maximum file size"
+          className={selectClassName}
+        >
+          <option value="">No size limit</option>
+          {MAX_SIZE_OPTIONS.map((bytes) => (
+            <option key={bytes} value={bytes}>Max {formatMegabytes(bytes)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
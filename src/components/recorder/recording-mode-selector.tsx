@@ -0,0 +1,41 @@
+"use client";
+
+import { AudioLines, Monitor, MonitorPlay, User } from "lucide-react";
+import { RecordingMode } from "@/lib/types";
+
+interface RecordingModeSelectorProps {
+  mode: RecordingMode;
+  onModeChange: (mode: RecordingMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { mode: RecordingMode; label: string; icon: typeof Monitor }[] = [
+  { mode: 'screen-camera', label: 'Screen + Camera', icon: MonitorPlay },
+  { mode: 'screen', label: 'Screen only', icon: Monitor },
+  { mode: 'camera', label: 'Camera only', icon: User },
+  { mode: 'audio', label: 'Audio only', icon: AudioLines },
+];
+
+export function RecordingModeSelector({
+  mode,
+  onModeChange,
+  disabled = false,
+}: RecordingModeSelectorProps) {
+  return (
+    <div className="flex gap-1 p-1 border border-neutral-800 rounded-lg">
+      {MODE_OPTIONS.map(({ mode: option, label, icon: Icon }) => (
+        <button
+          key={option}
+          onClick={() => onModeChange(option)}
+          disabled={disabled}
+          className={`p-1.5 rounded transition-all disabled:opacity-50 ${
+            mode === option ? 'bg-white/20 text-white' : 'text-neutral-400 hover:bg-white/10'
+          }`}
+          title={label}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      ))}
+    </div>
+  );
+}
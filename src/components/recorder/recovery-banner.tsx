@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { History, Trash2, Loader2 } from "lucide-react";
+import {
+  RecordingSessionManifest,
+  getUnfinishedSessions,
+  loadSessionChunks,
+  deleteRecordingSession,
+} from "@/lib/recorder/storage";
+import { finalizeRecording } from "@/lib/recorder/finalize";
+
+interface RecoveryBannerProps {
+  onRecover: (blob: Blob, duration: number) => void;
+  disabled?: boolean;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function RecoveryBanner({ onRecover, disabled = false }: RecoveryBannerProps) {
+  const [session, setSession] = useState<RecordingSessionManifest | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUnfinishedSessions().then(sessions => {
+      if (!cancelled) setSession(sessions[0] ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const showNextSession = useCallback(async () => {
+    const sessions = await getUnfinishedSessions();
+    setSession(sessions[0] ?? null);
+  }, []);
+
+  const handleRecover = useCallback(async () => {
+    if (!session) return;
+    setIsRecovering(true);
+    try {
+      const chunks = await loadSessionChunks(session.id);
+      if (chunks.length === 0) {
+        toast.error("Recording data is missing");
+        await deleteRecordingSession(session.id);
+        await showNextSession();
+        return;
+      }
+      // Labelled as recorded, not with whatever this browser would pick today
+      const blob = new Blob(chunks, { type: session.mimeType });
+      const finalized = await finalizeRecording(blob, session.duration);
+      await deleteRecordingSession(session.id);
+      onRecover(finalized.blob, finalized.duration);
+      if (finalized.seekable) {
+        toast.success("Recording recovered!");
+      } else {
+        toast.warning("Recording recovered, but it could not be made seekable. Seeking and the duration may be off.");
+      }
+    } catch (error) {
+      console.error("Failed to recover recording:", error);
+      toast.error("Failed to recover recording");
+    } finally {
+      setIsRecovering(false);
+    }
+  }, [session, onRecover, showNextSession]);
+
+  const handleDiscard = useCallback(async () => {
+    if (!session) return;
+    await deleteRecordingSession(session.id);
+    toast.info("Unfinished recording discarded");
+    await showNextSession();
+  }, [session, showNextSession]);
+
+  if (!session) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+      <div className="flex items-center gap-3">
+        <History className="w-4 h-4 text-yellow-500" />
+        <div>
+          <p className="font-mono text-sm text-neutral-200">Unfinished recording found</p>
+          <p className="font-mono text-xs text-neutral-500">
+            {new Date(session.startedAt).toLocaleString()} · {Math.round(session.duration)}s · {formatSize(session.byteLength)}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDiscard}
+          disabled={disabled || isRecovering}
+          title="Discard unfinished recording"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+        <Button size="sm" onClick={handleRecover} disabled={disabled || isRecovering}>
+          {isRecovering ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <History className="w-4 h-4 mr-2" />
+          )}
+          Recover
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { SceneLayout } from "@/lib/types";
+import { SCENE_LAYOUTS, SCENE_LABELS } from "@/lib/recorder/scenes";
+import { Columns2, Monitor, PictureInPicture2, SquareUser } from "lucide-react";
+import { useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { ShortcutAction, formatBinding } from "@/lib/shortcuts";
+
+interface SceneSwitcherProps {
+  scene: SceneLayout;
+  onSceneChange: (scene: SceneLayout) => void;
+  disabled?: boolean;
+}
+
+/** Shortcut for each scene, in `SCENE_LAYOUTS` order */
+export const SCENE_SHORTCUTS: ShortcutAction[] = ['recorder.scene1', 'recorder.scene2', 'recorder.scene3', 'recorder.scene4'];
+
+const SCENE_ICONS: Record<SceneLayout, typeof Monitor> = {
+  'screen-bubble': PictureInPicture2,
+  split: Columns2,
+  'camera-inset': SquareUser,
+  'screen-only': Monitor,
+};
+
+export function SceneSwitcher({ scene, onSceneChange, disabled = false }: SceneSwitcherProps) {
+  const bindings = useShortcutBindings();
+
+  return (
+    <div className="flex gap-1 p-1 border border-neutral-800 rounded-lg">
+      {SCENE_LAYOUTS.map((layout, index) => {
+        const Icon = SCENE_ICONS[layout];
+        return (
+          <button
+            key={layout}
+            onClick={() => onSceneChange(layout)}
+            disabled={disabled}
+            className={`p-1.5 rounded transition-all disabled:opacity-50 ${
+              scene === layout ? 'bg-white/20 text-white' : 'text-neutral-400 hover:bg-white/10'
+            }`}
+            title={`${SCENE_LABELS[layout]} (${formatBinding(bindings[SCENE_SHORTCUTS[index]])})`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
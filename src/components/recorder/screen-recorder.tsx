@@ -2,17 +2,54 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { toast } from "sonner";
-import { CameraSettings, AudioSettings, RecordingState } from "@/lib/types";
-import { startScreenCapture, stopScreenCapture } from "@/lib/recorder/screen";
-import { getMicrophoneStream, createAudioMixer, stopAudioStream, isMicError } from "@/lib/recorder/audio";
-import { getCameraStream, isCameraError } from "@/lib/recorder/camera";
+import { CameraSettings, AudioSettings, BrandingKit, DEFAULT_BRANDING_KIT, MicProcessingProfile, RecordingState, RecordingMode, CaptureQuality, RecordingLimits, SceneLayout, SceneChange, RecordingMetadata, RecordingMarker, MarkerKind, OUTPUT_RESOLUTION_MAP, QUALITY_PRESETS } from "@/lib/types";
+import { ScreenCaptureResult, getScreenDimensions, startScreenCapture, stopScreenCapture } from "@/lib/recorder/screen";
+import { getMicrophoneStream, getAudioDevices, createAudioMixer, createAudioRecorder, createAudioBlob, stopAudioStream, isMicError } from "@/lib/recorder/audio";
+import { getCameraStream, getCameraDevices, isCameraError } from "@/lib/recorder/camera";
+import { loadPreference, savePreference } from "@/lib/preferences";
 import { createCompositor, createMediaRecorder, createVideoBlob } from "@/lib/recorder/compositor";
+import { createRecordingSession, RecordingSession } from "@/lib/recorder/storage";
+import { createRecordingClock, RecordingClock } from "@/lib/recorder/clock";
+import { finalizeRecording } from "@/lib/recorder/finalize";
+import { evaluateRecordingLimits, RecordingLimitKind } from "@/lib/recorder/limits";
+import { createAnnotationLayer, AnnotationTool } from "@/lib/recorder/annotations";
+import { createBrandingLayer } from "@/lib/recorder/branding";
+import { FramePacing } from "@/lib/recorder/frame-scheduler";
+import { ViewportRect, canvasRectToSource } from "@/lib/recorder/viewport";
+import { getCropSize, loadCropRegion, saveCropRegion } from "@/lib/recorder/crop";
+import { MAIN_SCREEN_SOURCE_ID, SOURCE_SLOTS, VideoSource, VideoSourceKind, getDefaultSourceSlot, getSourceSlot, moveSource, removeSource, stopVideoSource, withMainSources } from "@/lib/recorder/sources";
 import { CameraOverlay } from "./camera-overlay";
+import { ChromaKeySettings } from "./chroma-key-settings";
+import { CameraEffectPicker } from "./camera-effect-picker";
+import { CameraStyleSettings } from "./camera-style-settings";
 import { AudioControls } from "./audio-controls";
 import { RecordingControls } from "./recording-controls";
+import { RecoveryBanner } from "./recovery-banner";
+import { RecordingModeSelector } from "./recording-mode-selector";
+import { DeviceSelector } from "./device-selector";
+import { QualitySettings, formatQualitySummary } from "./quality-settings";
+import { RecordingLimitsSettings } from "./recording-limits";
+import { CountdownOverlay } from "./countdown-overlay";
+import { AnnotationSurface } from "./annotation-surface";
+import { AnnotationToolbar, ANNOTATION_COLORS } from "./annotation-toolbar";
+import { FocusSurface } from "./focus-surface";
+import { FocusToolbar } from "./focus-toolbar";
+import { SceneSwitcher } from "./scene-switcher";
+import { MarkerToolbar } from "./marker-toolbar";
+import { useShortcuts, useShortcutBindings } from "@/components/shortcuts/use-shortcuts";
+import { formatBinding, getBindingCode, getEventBinding, isTypingTarget } from "@/lib/shortcuts";
+import { SCENE_LAYOUTS } from "@/lib/recorder/scenes";
+import { IsoRecorder, createIsoRecorder } from "@/lib/recorder/iso";
+import { PreflightPanel } from "./preflight-panel";
+import { Teleprompter } from "./teleprompter";
+import { CropRegionSelector } from "./crop-region-selector";
+import { SourceList } from "./source-list";
+import { BrandingSettings } from "./branding-settings";
+import { Button } from "@/components/ui/button";
+import { Camera, ClipboardCheck, Mic, Scan, ScrollText, UserSquare } from "lucide-react";
 
 interface ScreenRecorderProps {
-  onRecordingComplete: (blob: Blob, duration: number) => void;
+  onRecordingComplete: (blob: Blob, duration: number, metadata?: RecordingMetadata) => void;
 }
 
 const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
@@ -21,11 +58,73 @@ const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
   shape: 'rectangle',
 };
 
+const CAMERA_DEVICE_PREFERENCE = 'camera-device-id';
+const MICROPHONE_DEVICE_PREFERENCE = 'microphone-device-id';
+const CAPTURE_QUALITY_PREFERENCE = 'capture-quality';
+const ISO_RECORDING_PREFERENCE = 'iso-recording';
+const MIC_PROCESSING_PREFERENCE = 'mic-processing';
+const PREFLIGHT_PREFERENCE = 'preflight-before-recording';
+const TELEPROMPTER_PREFERENCE = 'teleprompter-open';
+const BRANDING_PREFERENCE = 'branding-kit';
+const RECORDING_LIMITS_PREFERENCE = 'recording-limits';
+
+const DEFAULT_RECORDING_LIMITS: RecordingLimits = {
+  countdownSeconds: 3,
+  maxDurationSeconds: null,
+  maxFileSizeBytes: null,
+};
+
+/** Zoom/spotlight target before the presenter has selected a region: the center quarter */
+const DEFAULT_FOCUS_REGION: ViewportRect = { x: 0.25, y: 0.25, width: 0.5, height: 0.5 };
+
+const LIMIT_LABELS: Record<RecordingLimitKind, string> = {
+  duration: 'time limit',
+  size: 'file size limit',
+};
+
+const DEFAULT_CAPTURE_QUALITY: CaptureQuality = {
+  preset: 'standard',
+  ...QUALITY_PRESETS.standard,
+};
+
+/** Camera-only recordings have no screen to take a native size from */
+const CAMERA_ONLY_FALLBACK_RESOLUTION = OUTPUT_RESOLUTION_MAP['720p'];
+
 const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
   microphoneEnabled: true,
   systemAudioEnabled: true,
+  microphoneGain: 1.0,
+  systemAudioGain: 1.0,
+  microphoneMuted: false,
+  systemAudioMuted: false,
+  pushToTalk: false,
+  duckingEnabled: false,
+  micProcessing: 'off',
 };
 
+function CameraFullPreview({ stream }: { stream: MediaStream }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch((e) => {
+        if (e.name !== 'AbortError') console.error('Camera preview play failed:', e);
+      });
+    }
+  }, [stream]);
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      muted
+      playsInline
+      className="absolute inset-0 w-full h-full object-cover scale-x-[-1]"
+    />
+  );
+}
+
 export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -35,47 +134,178 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
     isPaused: false,
     duration: 0,
     startTime: null,
+    timeRemaining: null,
+    markers: [],
   });
+  // Until the finished recording's stored session is removed it would show as unfinished
+  const [isFinalizing, setIsFinalizing] = useState(false);
   
   // Settings
   const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
-  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
-  const [cameraEnabled, setCameraEnabled] = useState(true);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => ({
+    ...DEFAULT_AUDIO_SETTINGS,
+    microphoneDeviceId: loadPreference<string | undefined>(MICROPHONE_DEVICE_PREFERENCE, undefined),
+    micProcessing: loadPreference<MicProcessingProfile>(MIC_PROCESSING_PREFERENCE, DEFAULT_AUDIO_SETTINGS.micProcessing),
+  }));
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>('screen-camera');
+  const [limits, setLimits] = useState<RecordingLimits>(
+    () => loadPreference(RECORDING_LIMITS_PREFERENCE, DEFAULT_RECORDING_LIMITS)
+  );
+  const [countdown, setCountdown] = useState<number | null>(null);
+  
+  // Annotations
+  const [annotationLayer] = useState(createAnnotationLayer);
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('pen');
+  const [annotationColor, setAnnotationColor] = useState(ANNOTATION_COLORS[0]);
+  
+  // Branding
+  const [brandingLayer] = useState(createBrandingLayer);
+  const [brandingKit, setBrandingKit] = useState<BrandingKit>(() => loadPreference(BRANDING_PREFERENCE, DEFAULT_BRANDING_KIT));
+  const [isLowerThirdVisible, setIsLowerThirdVisible] = useState(false);
+  
+  // Zoom and spotlight
+  const [isSelectingFocus, setIsSelectingFocus] = useState(false);
+  const [focusRegion, setFocusRegion] = useState<ViewportRect | null>(null);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [isSpotlightOn, setIsSpotlightOn] = useState(false);
+  
+  // Screen shared ahead of recording to pick a crop region; recording reuses it
+  const [sharedScreen, setSharedScreen] = useState<ScreenCaptureResult | null>(null);
+  const [cropRegion, setCropRegion] = useState<ViewportRect | null>(null);
+  const [isSelectingCrop, setIsSelectingCrop] = useState(false);
+  
+  // Every video in the output, main screen and camera included, in stacking order
+  const [videoSources, setVideoSources] = useState<VideoSource[]>([]);
+  const videoSourcesRef = useRef<VideoSource[]>([]);
+  // Detaches each extra source's 'ended' listener once the source is gone
+  const sourceListenersRef = useRef(new Map<string, AbortController>());
+  
+  // Scenes
+  const [scene, setScene] = useState<SceneLayout>('screen-bubble');
+  const sceneLogRef = useRef<SceneChange[]>([]);
+  // Mirrors `recordingState.markers` for the recorder's stop handler
+  const markersRef = useRef<RecordingMarker[]>([]);
+  const [outputPreview, setOutputPreview] = useState<{ stream: MediaStream; aspectRatio: number } | null>(null);
+  const [framePacing, setFramePacing] = useState<FramePacing | null>(null);
+  const [captureQuality, setCaptureQuality] = useState<CaptureQuality>(
+    () => loadPreference(CAPTURE_QUALITY_PREFERENCE, DEFAULT_CAPTURE_QUALITY)
+  );
+  const [isoRecording, setIsoRecording] = useState(() => loadPreference(ISO_RECORDING_PREFERENCE, false));
+  const [preflightOpen, setPreflightOpen] = useState(false);
+  const [checkBeforeRecording, setCheckBeforeRecording] = useState(() => loadPreference(PREFLIGHT_PREFERENCE, true));
+  const [showTeleprompter, setShowTeleprompter] = useState(() => loadPreference(TELEPROMPTER_PREFERENCE, false));
+  const outputSize = captureQuality.resolution === 'source'
+    ? undefined
+    : OUTPUT_RESOLUTION_MAP[captureQuality.resolution];
+  const cameraEnabled = recordingMode === 'screen-camera' || recordingMode === 'camera';
+  const capturesScreen = recordingMode === 'screen-camera' || recordingMode === 'screen';
+  const [cameraDeviceId, setCameraDeviceId] = useState<string | undefined>(
+    () => loadPreference<string | undefined>(CAMERA_DEVICE_PREFERENCE, undefined)
+  );
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+  const [microphoneDevices, setMicrophoneDevices] = useState<MediaDeviceInfo[]>([]);
   
   // Streams
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null);
   const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const [isTalking, setIsTalking] = useState(false);
+  const micStreamRef = useRef<MediaStream | null>(null);
   const [systemAudioStream, setSystemAudioStream] = useState<MediaStream | null>(null);
   
   // Refs for cleanup
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const isoRecorderRef = useRef<IsoRecorder | null>(null);
   const screenStreamRef = useRef<MediaStream | null>(null);
   const compositorRef = useRef<Awaited<ReturnType<typeof createCompositor>> | null>(null);
   const audioMixerRef = useRef<ReturnType<typeof createAudioMixer> | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const clockRef = useRef<RecordingClock | null>(null);
+  const recordedBytesRef = useRef(0);
+  const cancelCountdownRef = useRef<(() => void) | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Initialize camera stream
+  // Camera-only recordings request the camera at the output resolution
+  const cameraIdealSize = recordingMode === 'camera'
+    ? outputSize ?? CAMERA_ONLY_FALLBACK_RESOLUTION
+    : undefined;
+  const cameraIdealWidth = cameraIdealSize?.width;
+  const cameraIdealHeight = cameraIdealSize?.height;
+
+  // Acquire the camera, re-acquiring it when the device or requested size changes.
+  // A new stream is swapped into the compositor and the ISO camera file before the
+  // old tracks are stopped, so switching cameras mid-recording never interrupts either.
   useEffect(() => {
-    if (cameraEnabled && !cameraStream) {
-      getCameraStream().then(result => {
-        if (isCameraError(result)) {
-          toast.error(result.message);
-          setCameraEnabled(false);
+    if (!cameraEnabled) return;
+    
+    let cancelled = false;
+    const idealSize = cameraIdealWidth && cameraIdealHeight
+      ? { width: cameraIdealWidth, height: cameraIdealHeight }
+      : undefined;
+    
+    getCameraStream(cameraDeviceId, idealSize).then(async result => {
+      if (isCameraError(result)) {
+        if (cancelled) return;
+        if (cameraDeviceId) {
+          toast.warning(`${result.message} Falling back to the default camera.`);
+          setCameraDeviceId(undefined);
         } else {
-          setCameraStream(result.stream);
+          toast.error(result.message);
+          setRecordingMode('screen');
         }
-      });
-    } else if (!cameraEnabled && cameraStream) {
-      cameraStream.getTracks().forEach(track => track.stop());
-      setCameraStream(null);
-    }
-  }, [cameraEnabled, cameraStream]);
+        return;
+      }
+      if (cancelled) {
+        result.cleanup();
+        return;
+      }
+      
+      const previousStream = cameraStreamRef.current;
+      cameraStreamRef.current = result.stream;
+      setCameraStream(result.stream);
+      isoRecorderRef.current?.replaceCameraStream(result.stream);
+      await compositorRef.current?.replaceCameraStream(result.stream);
+      previousStream?.getTracks().forEach(track => track.stop());
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraEnabled, cameraDeviceId, cameraIdealWidth, cameraIdealHeight]);
+
+  // Release the camera when it is switched off
+  useEffect(() => {
+    if (cameraEnabled) return;
+    cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraStreamRef.current = null;
+    setCameraStream(null);
+  }, [cameraEnabled]);
+
+  // Keep the camera list current; labels only appear once permission is granted
+  useEffect(() => {
+    const refreshDevices = () => {
+      getCameraDevices().then(setCameraDevices);
+    };
+    
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, [cameraStream]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
+      cancelCountdownRef.current?.();
       cleanup();
+      cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+      cameraStreamRef.current = null;
+      videoSourcesRef.current.forEach(stopVideoSource);
+      sourceListenersRef.current.forEach(listener => listener.abort());
+      sourceListenersRef.current.clear();
     };
   }, []);
 
@@ -92,37 +322,220 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
       mediaRecorderRef.current = null;
     }
     
+    isoRecorderRef.current?.stop();
+    isoRecorderRef.current = null;
+    
     compositorRef.current?.cleanup();
     compositorRef.current = null;
+    setOutputPreview(null);
+    setFramePacing(null);
+    setIsAnnotating(false);
+    annotationLayer.clear();
+    setIsSelectingFocus(false);
+    setFocusRegion(null);
+    setIsZoomed(false);
+    setIsSpotlightOn(false);
+    setIsLowerThirdVisible(false);
     
     audioMixerRef.current?.cleanup();
     audioMixerRef.current = null;
     
     stopScreenCapture(screenStreamRef.current);
     screenStreamRef.current = null;
+    setSharedScreen(null);
+    setIsSelectingCrop(false);
     
-    stopAudioStream(micStream);
+    stopAudioStream(micStreamRef.current);
+    micStreamRef.current = null;
     setMicStream(null);
     
     setSystemAudioStream(null);
-  }, [micStream]);
+  }, []);
+
+  // Swap the microphone feeding the mixer; the recorded audio track is unaffected
+  const replaceMicrophone = useCallback((mic: MediaStream | null) => {
+    const previousMic = micStreamRef.current;
+    micStreamRef.current = mic;
+    setMicStream(mic);
+    audioMixerRef.current?.replaceMicStream(mic);
+    if (previousMic && previousMic !== mic) {
+      stopAudioStream(previousMic);
+    }
+  }, []);
+
+  const fallbackMicrophone = useCallback(async () => {
+    const result = await getMicrophoneStream();
+    if (isMicError(result)) {
+      replaceMicrophone(null);
+      toast.error("Microphone disconnected. Recording continues without microphone.");
+      return;
+    }
+    
+    replaceMicrophone(result);
+    const label = result.getAudioTracks()[0]?.label || 'default microphone';
+    toast.warning(`Microphone disconnected. Switched to ${label}.`);
+  }, [replaceMicrophone]);
+
+  const isRecording = recordingState.isRecording;
+  const shortcutBindings = useShortcutBindings();
+
+  // Push-to-talk keeps the mic closed except while the hotkey is held
+  useEffect(() => {
+    if (!audioSettings.pushToTalk) {
+      setIsTalking(false);
+      return;
+    }
+    
+    const pushToTalkBinding = shortcutBindings['recorder.pushToTalk'];
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target) || getEventBinding(e) !== pushToTalkBinding) return;
+      setIsTalking(true);
+    };
+    // Modifiers may be let go first, so release on the key alone
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === getBindingCode(pushToTalkBinding)) setIsTalking(false);
+    };
+    const handleBlur = () => setIsTalking(false);
+    
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [audioSettings.pushToTalk, shortcutBindings]);
+
+  const micMuted = audioSettings.microphoneMuted || (audioSettings.pushToTalk && !isTalking);
+
+  // Apply live level changes to the mixed stream being recorded
+  useEffect(() => {
+    const mixer = audioMixerRef.current;
+    if (!mixer) return;
+    mixer.setGain('microphone', audioSettings.microphoneGain);
+    mixer.setMuted('microphone', micMuted);
+    mixer.setGain('system', audioSettings.systemAudioGain);
+    mixer.setMuted('system', audioSettings.systemAudioMuted);
+    mixer.setDuckingEnabled(audioSettings.duckingEnabled);
+    mixer.setMicProcessing(audioSettings.micProcessing);
+  }, [
+    isRecording,
+    micMuted,
+    audioSettings.microphoneGain,
+    audioSettings.systemAudioGain,
+    audioSettings.systemAudioMuted,
+    audioSettings.duckingEnabled,
+    audioSettings.micProcessing,
+  ]);
+
+  // Fall back to another input when the active microphone goes away
+  useEffect(() => {
+    const track = micStream?.getAudioTracks()[0];
+    if (!track || !isRecording) return;
+    
+    const handleEnded = () => {
+      fallbackMicrophone();
+    };
+    
+    track.addEventListener('ended', handleEnded);
+    return () => track.removeEventListener('ended', handleEnded);
+  }, [micStream, isRecording, fallbackMicrophone]);
+
+  // Track microphones coming and going, picking one up if the recording lost its mic
+  useEffect(() => {
+    const handleDeviceChange = async () => {
+      const devices = await getAudioDevices();
+      setMicrophoneDevices(devices);
+      
+      if (!isRecording || !audioSettings.microphoneEnabled || devices.length === 0) return;
+      
+      const currentTrack = micStreamRef.current?.getAudioTracks()[0];
+      if (currentTrack?.readyState === 'ended') {
+        fallbackMicrophone();
+      } else if (!currentTrack) {
+        const result = await getMicrophoneStream(audioSettings.microphoneDeviceId);
+        if (!isMicError(result)) {
+          replaceMicrophone(result);
+          toast.info("Microphone connected");
+        }
+      }
+    };
+    
+    getAudioDevices().then(setMicrophoneDevices);
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, [isRecording, audioSettings.microphoneEnabled, audioSettings.microphoneDeviceId, micStream, fallbackMicrophone, replaceMicrophone]);
+
+  // Resolves true once the countdown finishes, or false if it was cancelled
+  const runCountdown = useCallback((seconds: number) => new Promise<boolean>((resolve) => {
+    if (seconds <= 0) {
+      resolve(true);
+      return;
+    }
+    
+    let remaining = seconds;
+    setCountdown(remaining);
+    
+    const finish = (completed: boolean) => {
+      clearInterval(interval);
+      cancelCountdownRef.current = null;
+      setCountdown(null);
+      resolve(completed);
+    };
+    
+    const interval = setInterval(() => {
+      remaining -= 1;
+      if (remaining <= 0) {
+        finish(true);
+      } else {
+        setCountdown(remaining);
+      }
+    }, 1000);
+    
+    cancelCountdownRef.current = () => finish(false);
+  }), []);
 
   const startRecording = useCallback(async () => {
+    if (cancelCountdownRef.current) return;
+    
     try {
       chunksRef.current = [];
+      recordedBytesRef.current = 0;
+      
+      const audioOnly = recordingMode === 'audio';
+      if (recordingMode === 'camera' && !cameraStream) {
+        toast.error("Camera is not ready");
+        return;
+      }
+      if (audioOnly && !audioSettings.microphoneEnabled) {
+        toast.error("Turn on the microphone to record audio");
+        return;
+      }
       
       // Get screen capture with system audio
-      const screenResult = await startScreenCapture(audioSettings.systemAudioEnabled);
-      if (!screenResult) {
+      const screenResult = capturesScreen
+        ? sharedScreen ?? await startScreenCapture(audioSettings.systemAudioEnabled, captureQuality.frameRate)
+        : null;
+      if (capturesScreen && !screenResult) {
         toast.error("Screen capture was cancelled or denied");
         return;
       }
       
-      screenStreamRef.current = screenResult.stream;
+      screenStreamRef.current = screenResult?.stream ?? null;
+      setIsSelectingCrop(false);
+      
+      // A region picked on the shared screen, else the one saved for this display resolution
+      const screenCrop = screenResult
+        ? sharedScreen ? cropRegion : loadCropRegion(getScreenDimensions(screenResult.stream))
+        : null;
       
       // Extract system audio if available
       let systemAudio: MediaStream | null = null;
-      if (screenResult.hasSystemAudio && audioSettings.systemAudioEnabled) {
+      if (screenResult?.hasSystemAudio && audioSettings.systemAudioEnabled) {
         systemAudio = new MediaStream(screenResult.stream.getAudioTracks());
         setSystemAudioStream(systemAudio);
       }
@@ -131,90 +544,205 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
       let mic: MediaStream | null = null;
       if (audioSettings.microphoneEnabled) {
         const micResult = await getMicrophoneStream(audioSettings.microphoneDeviceId);
-        if (isMicError(micResult)) {
+        if (isMicError(micResult) && audioOnly) {
+          toast.error(micResult.message);
+          cleanup();
+          return;
+        } else if (isMicError(micResult)) {
           toast.warning(micResult.message + " Recording without microphone.");
         } else {
           mic = micResult;
+          micStreamRef.current = mic;
           setMicStream(mic);
         }
       }
       
       // Create audio mixer
-      const audioMixer = createAudioMixer(mic, systemAudio);
+      const audioMixer = createAudioMixer(mic, systemAudio, {
+        microphoneGain: audioSettings.microphoneGain,
+        systemGain: audioSettings.systemAudioGain,
+        microphoneMuted: audioSettings.microphoneMuted || audioSettings.pushToTalk,
+        systemMuted: audioSettings.systemAudioMuted,
+        duckingEnabled: audioSettings.duckingEnabled,
+        micProcessing: audioSettings.micProcessing,
+      });
       audioMixerRef.current = audioMixer;
       
       // Create compositor for video (async - waits for videos to be ready)
-      let compositor;
-      try {
-        compositor = await createCompositor({
-          screenStream: screenResult.stream,
-          cameraStream: cameraEnabled ? cameraStream : null,
-          cameraSettings,
-        });
-        compositorRef.current = compositor;
-      } catch (compositorError) {
-        console.error("Compositor initialization failed:", compositorError);
-        toast.error("Failed to initialize video compositor");
-        cleanup();
-        return;
+      let compositor: Awaited<ReturnType<typeof createCompositor>> | null = null;
+      if (!audioOnly) {
+        try {
+          compositor = await createCompositor({
+            screenStream: screenResult?.stream ?? null,
+            cameraStream: cameraEnabled ? cameraStream : null,
+            cameraSettings,
+            annotations: annotationLayer,
+            branding: brandingLayer,
+            scene,
+            sources: videoSources,
+            cropRegion: screenCrop,
+            outputSize: screenResult ? outputSize : outputSize ?? CAMERA_ONLY_FALLBACK_RESOLUTION,
+            frameRate: captureQuality.frameRate,
+          });
+          compositorRef.current = compositor;
+          setOutputPreview({
+            stream: compositor.canvasStream,
+            aspectRatio: compositor.canvas.width / compositor.canvas.height,
+          });
+        } catch (compositorError) {
+          console.error("Compositor initialization failed:", compositorError);
+          toast.error("Failed to initialize video compositor");
+          cleanup();
+          return;
+        }
       }
       
       // Combine video and audio streams
       const combinedStream = new MediaStream([
-        ...compositor.canvasStream.getVideoTracks(),
+        ...(compositor?.canvasStream.getVideoTracks() ?? []),
         ...audioMixer.mixedStream.getAudioTracks(),
       ]);
       
-      // Create and start media recorder
-      const recorder = createMediaRecorder(combinedStream);
+      // Give the presenter a moment before capturing starts
+      const countdownCompleted = await runCountdown(limits.countdownSeconds);
+      if (!countdownCompleted) {
+        toast.info("Recording cancelled");
+        cleanup();
+        return;
+      }
+      
+      // Create and start media recorder; audio-only recordings go straight to Opus/WebM
+      const recorder = compositor
+        ? createMediaRecorder(combinedStream, {
+            videoBitsPerSecond: captureQuality.videoBitsPerSecond,
+            audioBitsPerSecond: captureQuality.audioBitsPerSecond,
+          })
+        : createAudioRecorder(combinedStream, captureQuality.audioBitsPerSecond);
       mediaRecorderRef.current = recorder;
       
-      // Store start time in a ref to access in onstop
+      // Raw screen and camera files for re-laying out the camera in the editor
+      const isoCamera = cameraEnabled ? cameraStream : null;
+      const isoRecorder = isoRecording && screenResult && isoCamera
+        ? createIsoRecorder(screenResult.stream, isoCamera, { videoBitsPerSecond: captureQuality.videoBitsPerSecond })
+        : null;
+      isoRecorderRef.current = isoRecorder;
+      const isoLayout = compositor
+        ? {
+            outputSize: { width: compositor.canvas.width, height: compositor.canvas.height },
+            cameraSettings,
+            screenCrop: screenCrop ?? undefined,
+          }
+        : null;
+      
       const startTime = Date.now();
-      const startTimeRef = { current: startTime };
+      
+      // Persist chunks as they arrive so the recording survives a crash or reload
+      const session = await createRecordingSession(recorder.mimeType);
+      sessionRef.current = session;
+      if (!session) {
+        toast.warning("Crash recovery unavailable. Recording will be kept in memory only.");
+      }
       
       recorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
           chunksRef.current.push(e.data);
+          recordedBytesRef.current += e.data.size;
+          session?.appendChunk(e.data, clockRef.current?.elapsed() ?? 0);
         }
       };
       
-      recorder.onstop = () => {
-        const duration = Math.floor((Date.now() - startTimeRef.current) / 1000);
-        const blob = createVideoBlob(chunksRef.current);
+      recorder.onstop = async () => {
+        // Paused time is excluded, unlike a wall-clock difference
+        const trackedDuration = clockRef.current?.elapsed() ?? 0;
+        clockRef.current = null;
+        const blob = audioOnly ? createAudioBlob(chunksRef.current) : createVideoBlob(chunksRef.current);
+        const finishedSession = sessionRef.current;
+        sessionRef.current = null;
+        const sceneChanges = sceneLogRef.current;
+        sceneLogRef.current = [];
+        const markers = markersRef.current;
+        markersRef.current = [];
+        const isoResult = isoRecorderRef.current?.stop() ?? Promise.resolve(null);
+        isoRecorderRef.current = null;
+        // Read before cleanup tears the compositor down
+        const compositeOnly = compositor?.getCompositeOnlyFeatures() ?? [];
         cleanup();
+        setIsFinalizing(true);
         setRecordingState({
           isRecording: false,
           isPaused: false,
           duration: 0,
           startTime: null,
+          timeRemaining: null,
+          markers: [],
         });
-        onRecordingComplete(blob, duration);
-        toast.success("Recording completed!");
+        
+        // Remux into a seekable file. The stored chunks are removed only once it has
+        // finished, either way, so a crash meanwhile still leaves them recoverable
+        const toastId = toast.loading("Finalizing recording...");
+        const finalized = await finalizeRecording(blob, trackedDuration);
+        await finishedSession?.complete();
+        setIsFinalizing(false);
+        const isoFiles = await isoResult;
+        onRecordingComplete(finalized.blob, finalized.duration, {
+          sceneChanges,
+          markers,
+          isoTracks: isoFiles && isoLayout ? { ...isoFiles, ...isoLayout, compositeOnly } : undefined,
+        });
+        if (finalized.seekable) {
+          toast.success("Recording completed!", { id: toastId });
+        } else {
+          toast.warning("Recording saved, but it could not be made seekable. Seeking and the duration may be off.", { id: toastId });
+        }
       };
       
       // Handle screen share stop
-      screenResult.stream.getVideoTracks()[0].onended = () => {
-        if (mediaRecorderRef.current?.state !== 'inactive') {
-          stopRecording();
-        }
-      };
+      if (screenResult) {
+        screenResult.stream.getVideoTracks()[0].onended = () => {
+          if (mediaRecorderRef.current?.state !== 'inactive') {
+            stopRecording();
+          }
+        };
+      }
       
       recorder.start(100);
+      isoRecorder?.start(100);
+      clockRef.current = createRecordingClock();
+      sceneLogRef.current = recordingMode === 'screen-camera' ? [{ layout: scene, time: 0 }] : [];
+      markersRef.current = [];
       
       setRecordingState({
         isRecording: true,
         isPaused: false,
         duration: 0,
         startTime,
+        timeRemaining: limits.maxDurationSeconds,
+        markers: [],
       });
       
-      // Start duration counter
+      // Start duration counter, which also enforces the auto-stop limits
+      const warnedLimits = new Set<RecordingLimitKind>();
       durationIntervalRef.current = setInterval(() => {
+        const elapsed = clockRef.current?.elapsed() ?? 0;
+        const status = evaluateRecordingLimits(limits, elapsed, recordedBytesRef.current);
+        
+        status.approaching.forEach(kind => {
+          if (warnedLimits.has(kind)) return;
+          warnedLimits.add(kind);
+          toast.warning(`Approaching the ${LIMIT_LABELS[kind]}. Recording will stop automatically.`);
+        });
+        
+        if (status.reached && mediaRecorderRef.current?.state !== 'inactive') {
+          toast.info(`Recording stopped: ${LIMIT_LABELS[status.reached]} reached`);
+          stopRecording();
+        }
+        
         setRecordingState(prev => ({
           ...prev,
-          duration: prev.isPaused ? prev.duration : Math.floor((Date.now() - startTime) / 1000),
+          duration: Math.floor(elapsed),
+          timeRemaining: status.timeRemaining,
         }));
+        setFramePacing(compositorRef.current?.getFramePacing() ?? null);
       }, 1000);
       
       toast.success("Recording started!");
@@ -223,7 +751,7 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
       toast.error("Failed to start recording");
       cleanup();
     }
-  }, [audioSettings, cameraEnabled, cameraStream, cameraSettings, cleanup, onRecordingComplete]);
+  }, [audioSettings, recordingMode, capturesScreen, captureQuality, outputSize, limits, runCountdown, cameraEnabled, cameraStream, cameraSettings, scene, isoRecording, sharedScreen, cropRegion, videoSources, cleanup, onRecordingComplete]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
@@ -234,6 +762,8 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.pause();
+      isoRecorderRef.current?.pause();
+      clockRef.current?.pause();
       setRecordingState(prev => ({ ...prev, isPaused: true }));
       toast.info("Recording paused");
     }
@@ -242,13 +772,20 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
       mediaRecorderRef.current.resume();
+      isoRecorderRef.current?.resume();
+      clockRef.current?.resume();
       setRecordingState(prev => ({ ...prev, isPaused: false }));
       toast.info("Recording resumed");
     }
   }, []);
 
   const toggleCamera = useCallback(() => {
-    setCameraEnabled(prev => !prev);
+    setRecordingMode(prev => {
+      if (prev === 'screen') return 'screen-camera';
+      // Turning the camera on for a voice memo makes it a camera recording
+      if (prev === 'audio') return 'camera';
+      return 'screen';
+    });
   }, []);
 
   const handleCameraSettingsChange = useCallback((settings: Partial<CameraSettings>) => {
@@ -256,19 +793,314 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
     compositorRef.current?.updateCameraSettings(settings);
   }, []);
 
+  const handleCameraDeviceChange = useCallback((deviceId: string | undefined) => {
+    setCameraDeviceId(deviceId);
+    savePreference(CAMERA_DEVICE_PREFERENCE, deviceId);
+  }, []);
+
+  const handleMicrophoneDeviceChange = useCallback(async (deviceId: string | undefined) => {
+    setAudioSettings(prev => ({ ...prev, microphoneDeviceId: deviceId }));
+    savePreference(MICROPHONE_DEVICE_PREFERENCE, deviceId);
+    
+    // Switch live when a recording is already mixing a microphone
+    if (!audioMixerRef.current || !audioSettings.microphoneEnabled) return;
+    
+    const result = await getMicrophoneStream(deviceId);
+    if (isMicError(result)) {
+      toast.error(result.message);
+      return;
+    }
+    replaceMicrophone(result);
+  }, [audioSettings.microphoneEnabled, replaceMicrophone]);
+
+  // Push zoom and spotlight state into the compositor, which animates the change
+  useEffect(() => {
+    const compositor = compositorRef.current;
+    if (!compositor) return;
+    compositor.setZoomRegion(isZoomed ? focusRegion ?? DEFAULT_FOCUS_REGION : null);
+    compositor.setSpotlight(isSpotlightOn ? focusRegion ?? DEFAULT_FOCUS_REGION : null);
+  }, [isZoomed, isSpotlightOn, focusRegion]);
+
+  const handleFocusSelect = useCallback((canvasRegion: ViewportRect) => {
+    const viewport = compositorRef.current?.getViewport();
+    if (!viewport) return;
+    // Selections are made on the (possibly zoomed) output; the compositor wants screen coordinates
+    setFocusRegion(canvasRectToSource(canvasRegion, viewport));
+    setIsZoomed(true);
+    setIsSelectingFocus(false);
+  }, []);
+
+  // Switching scenes only re-lays out the canvas, so the recorder keeps running
+  const handleSceneChange = useCallback((layout: SceneLayout) => {
+    setScene(layout);
+    compositorRef.current?.setScene(layout);
+    
+    const clock = clockRef.current;
+    const log = sceneLogRef.current;
+    if (clock && log[log.length - 1]?.layout !== layout) {
+      log.push({ layout, time: clock.elapsed() });
+    }
+  }, []);
+
+  const handleAddMarker = useCallback((kind: MarkerKind) => {
+    const clock = clockRef.current;
+    if (!clock) return;
+    const marker: RecordingMarker = { id: crypto.randomUUID(), kind, time: clock.elapsed() };
+    markersRef.current = [...markersRef.current, marker];
+    setRecordingState(prev => ({ ...prev, markers: markersRef.current }));
+    toast.info(kind === 'redo' ? "Marked for redo" : "Marker added", { duration: 1500 });
+  }, []);
+
+  const handleMarkerLabelChange = useCallback((id: string, label: string) => {
+    markersRef.current = markersRef.current.map(marker =>
+      marker.id === id ? { ...marker, label: label.trim() || undefined } : marker
+    );
+    setRecordingState(prev => ({ ...prev, markers: markersRef.current }));
+  }, []);
+
+  const toggleAnnotating = useCallback(() => {
+    setIsSelectingFocus(false);
+    setIsAnnotating(prev => !prev);
+  }, []);
+
+  const toggleSelectingFocus = useCallback(() => {
+    setIsAnnotating(false);
+    setIsSelectingFocus(prev => !prev);
+  }, []);
+
+  const handleLimitsChange = useCallback((newLimits: RecordingLimits) => {
+    setLimits(newLimits);
+    savePreference(RECORDING_LIMITS_PREFERENCE, newLimits);
+  }, []);
+
+  const handleRecordClick = useCallback(() => {
+    if (checkBeforeRecording) {
+      setPreflightOpen(true);
+    } else {
+      startRecording();
+    }
+  }, [checkBeforeRecording, startRecording]);
+
+  const canUseLiveTools = isRecording && (recordingMode === 'screen-camera' || recordingMode === 'screen');
+  const hasLowerThird = recordingMode !== 'audio' && brandingKit.lowerThird.name.trim() !== '';
+  useShortcuts({
+    'recorder.toggleRecording': () => {
+      if (isRecording) {
+        stopRecording();
+      } else if (countdown === null && !preflightOpen) {
+        handleRecordClick();
+      }
+    },
+    ...(isRecording && {
+      'recorder.togglePause': () => (recordingState.isPaused ? resumeRecording() : pauseRecording()),
+      'recorder.markHighlight': () => handleAddMarker('highlight'),
+      'recorder.markRedo': () => handleAddMarker('redo'),
+    }),
+    ...(isRecording && hasLowerThird && {
+      'recorder.toggleLowerThird': () => setIsLowerThirdVisible(prev => !prev),
+    }),
+    ...(!isRecording && recordingMode !== 'audio' && {
+      'recorder.toggleCamera': toggleCamera,
+    }),
+    ...(canUseLiveTools && {
+      'recorder.toggleDrawing': toggleAnnotating,
+      'recorder.toggleZoom': () => setIsZoomed(prev => !prev),
+      'recorder.toggleSpotlight': () => setIsSpotlightOn(prev => !prev),
+    }),
+    ...(canUseLiveTools && isAnnotating && {
+      'recorder.undoDrawing': () => annotationLayer.undo(),
+    }),
+    ...(canUseLiveTools && (isAnnotating || isSelectingFocus) && {
+      'recorder.leaveTool': () => {
+        setIsAnnotating(false);
+        setIsSelectingFocus(false);
+      },
+    }),
+    ...(isRecording && recordingMode === 'screen-camera' && {
+      'recorder.scene1': () => handleSceneChange(SCENE_LAYOUTS[0]),
+      'recorder.scene2': () => handleSceneChange(SCENE_LAYOUTS[1]),
+      'recorder.scene3': () => handleSceneChange(SCENE_LAYOUTS[2]),
+      'recorder.scene4': () => handleSceneChange(SCENE_LAYOUTS[3]),
+    }),
+  });
+
+  useEffect(() => {
+    brandingLayer.setKit(brandingKit);
+  }, [brandingLayer, brandingKit]);
+
+  useEffect(() => {
+    brandingLayer.setLowerThirdVisible(isLowerThirdVisible);
+  }, [brandingLayer, isLowerThirdVisible]);
+
+  const handleBrandingKitChange = useCallback((kit: BrandingKit) => {
+    setBrandingKit(kit);
+    savePreference(BRANDING_PREFERENCE, kit);
+  }, []);
+
+  const handleCheckBeforeRecordingChange = useCallback((enabled: boolean) => {
+    setCheckBeforeRecording(enabled);
+    savePreference(PREFLIGHT_PREFERENCE, enabled);
+  }, []);
+
+  // Share the screen now so the region can be picked on a live preview
+  const handleSelectCropRegion = useCallback(async () => {
+    if (sharedScreen) {
+      setIsSelectingCrop(true);
+      return;
+    }
+    const result = await startScreenCapture(audioSettings.systemAudioEnabled, captureQuality.frameRate);
+    if (!result) {
+      toast.error("Screen capture was cancelled or denied");
+      return;
+    }
+    screenStreamRef.current = result.stream;
+    setSharedScreen(result);
+    setCropRegion(loadCropRegion(getScreenDimensions(result.stream)));
+    setIsSelectingCrop(true);
+
+    // Sharing stopped from the browser before recording began
+    result.stream.getVideoTracks()[0].addEventListener('ended', () => {
+      if (mediaRecorderRef.current || screenStreamRef.current !== result.stream) return;
+      stopScreenCapture(result.stream);
+      screenStreamRef.current = null;
+      setSharedScreen(null);
+      setIsSelectingCrop(false);
+    });
+  }, [sharedScreen, audioSettings.systemAudioEnabled, captureQuality.frameRate]);
+
+  const handleCropRegionChange = useCallback((region: ViewportRect | null) => {
+    if (!sharedScreen) return;
+    setCropRegion(region);
+    saveCropRegion(getScreenDimensions(sharedScreen.stream), region);
+  }, [sharedScreen]);
+
+  // Modes without the screen have no use for a screen shared in advance
+  useEffect(() => {
+    if (capturesScreen || !sharedScreen || mediaRecorderRef.current) return;
+    stopScreenCapture(sharedScreen.stream);
+    screenStreamRef.current = null;
+    setSharedScreen(null);
+    setIsSelectingCrop(false);
+  }, [capturesScreen, sharedScreen]);
+
+  // Keep a running compositor in step with the source list
+  useEffect(() => {
+    videoSourcesRef.current = videoSources;
+    compositorRef.current?.setSources(videoSources);
+  }, [videoSources]);
+
+  // The main screen and camera have entries whenever the mode records them
+  useEffect(() => {
+    setVideoSources(prev => withMainSources(prev, capturesScreen, cameraEnabled));
+  }, [capturesScreen, cameraEnabled]);
+
+  const releaseSourceListener = useCallback((id: string) => {
+    sourceListenersRef.current.get(id)?.abort();
+    sourceListenersRef.current.delete(id);
+  }, []);
+
+  const addExtraSource = useCallback((kind: VideoSourceKind, label: string, stream: MediaStream) => {
+    const id = crypto.randomUUID();
+    setVideoSources(prev => {
+      const slot = getDefaultSourceSlot(kind, prev);
+      // A second screen beside the main one pushes the main screen to the other half
+      const placed = slot !== 'right-half' ? prev : prev.map(source =>
+        source.id === MAIN_SCREEN_SOURCE_ID && getSourceSlot(source.layout) === 'full'
+          ? { ...source, layout: SOURCE_SLOTS['left-half'] }
+          : source
+      );
+      return [...placed, { id, kind, label, stream, layout: SOURCE_SLOTS[slot], shape: 'rectangle' }];
+    });
+    // Sharing stopped from the browser, or the camera was unplugged
+    const listener = new AbortController();
+    sourceListenersRef.current.set(id, listener);
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      releaseSourceListener(id);
+      setVideoSources(prev => removeSource(prev, id));
+    }, { signal: listener.signal });
+  }, [releaseSourceListener]);
+
+  const handleAddScreenSource = useCallback(async () => {
+    const result = await startScreenCapture(false, captureQuality.frameRate);
+    if (!result) {
+      toast.error("Screen capture was cancelled or denied");
+      return;
+    }
+    addExtraSource('screen', result.stream.getVideoTracks()[0]?.label || 'Screen', result.stream);
+  }, [captureQuality.frameRate, addExtraSource]);
+
+  const handleAddCameraSource = useCallback(async (deviceId: string) => {
+    const result = await getCameraStream(deviceId);
+    if (isCameraError(result)) {
+      toast.error(result.message);
+      return;
+    }
+    addExtraSource('camera', result.stream.getVideoTracks()[0]?.label || 'Camera', result.stream);
+  }, [addExtraSource]);
+
+  const handleSourceChange = useCallback((id: string, changes: Partial<Pick<VideoSource, 'layout' | 'shape'>>) => {
+    setVideoSources(prev => prev.map(source => source.id === id ? { ...source, ...changes } : source));
+  }, []);
+
+  const handleMoveSource = useCallback((id: string, direction: 1 | -1) => {
+    setVideoSources(prev => moveSource(prev, id, direction));
+  }, []);
+
+  const handleRemoveSource = useCallback((id: string) => {
+    const source = videoSourcesRef.current.find(s => s.id === id);
+    if (source) stopVideoSource(source);
+    releaseSourceListener(id);
+    setVideoSources(prev => removeSource(prev, id));
+  }, [releaseSourceListener]);
+
+  const toggleTeleprompter = useCallback(() => {
+    setShowTeleprompter(prev => !prev);
+  }, []);
+
+  useEffect(() => {
+    savePreference(TELEPROMPTER_PREFERENCE, showTeleprompter);
+  }, [showTeleprompter]);
+
+  const handleIsoRecordingChange = useCallback((enabled: boolean) => {
+    setIsoRecording(enabled);
+    savePreference(ISO_RECORDING_PREFERENCE, enabled);
+  }, []);
+
+  const handleCaptureQualityChange = useCallback((quality: CaptureQuality) => {
+    setCaptureQuality(quality);
+    savePreference(CAPTURE_QUALITY_PREFERENCE, quality);
+  }, []);
+
   const handleAudioSettingsChange = useCallback((settings: Partial<AudioSettings>) => {
     setAudioSettings(prev => ({ ...prev, ...settings }));
+    if (settings.micProcessing) {
+      savePreference(MIC_PROCESSING_PREFERENCE, settings.micProcessing);
+    }
   }, []);
 
+  const cropSize = sharedScreen && cropRegion
+    ? getCropSize(getScreenDimensions(sharedScreen.stream), cropRegion)
+    : null;
+
   return (
     <div className="w-full space-y-4">
+      {/* Crash recovery */}
+      {!recordingState.isRecording && !isFinalizing && (
+        <RecoveryBanner onRecover={onRecordingComplete} />
+      )}
+
       {/* Preview area */}
       <div
         ref={containerRef}
         className="relative w-full aspect-video bg-neutral-950 border border-neutral-800 overflow-hidden flex items-center justify-center noise-texture noise-texture-subtle"
       >
+        {/* Camera-only preview fills the frame */}
+        {recordingMode === 'camera' && cameraStream && (
+          <CameraFullPreview stream={cameraStream} />
+        )}
+
         {recordingState.isRecording ? (
-          <div className="flex flex-col items-center gap-3">
+          <div className="relative z-10 flex flex-col items-center gap-3">
             <div className="flex items-center gap-3">
               <div className={`w-3 h-3 rounded-full ${recordingState.isPaused ? 'bg-yellow-500' : 'bg-red-500 animate-pulse'}`} />
               <span className="text-neutral-300 font-mono text-lg">
@@ -276,22 +1108,81 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
               </span>
             </div>
             <p className="text-neutral-500 font-mono text-xs">
-              Your screen is being captured
+              Your {recordingMode === 'camera' ? 'camera' : recordingMode === 'audio' ? 'microphone' : 'screen'} is being captured
             </p>
+            {framePacing && framePacing.measuredFps > 0 && (
+              <p
+                className={`font-mono text-xs ${
+                  framePacing.measuredFps < framePacing.targetFps * 0.9 ? 'text-yellow-500' : 'text-neutral-600'
+                }`}
+                title={`Frame timing over the last few seconds (${framePacing.scheduler === 'worker-timer' ? 'background-safe timer' : 'animation frames'})`}
+              >
+                {framePacing.measuredFps.toFixed(1)} / {framePacing.targetFps} fps · ±{framePacing.jitterMs.toFixed(1)} ms
+                {framePacing.lateFrames > 0 && ` · ${framePacing.lateFrames} late`}
+              </p>
+            )}
           </div>
         ) : (
-          <div className="text-center">
+          <div className="relative z-10 text-center">
             <p className="text-neutral-500 font-mono text-sm">
               Click Record to start capturing
             </p>
             <p className="text-neutral-600 font-mono text-xs mt-1">
-              Screen + {audioSettings.microphoneEnabled ? 'Mic' : ''} {audioSettings.systemAudioEnabled ? '+ System Audio' : ''}
+              {recordingMode === 'camera'
+                ? `Camera${audioSettings.microphoneEnabled ? ' + Mic' : ''}`
+                : recordingMode === 'audio'
+                ? `Audio only${audioSettings.microphoneEnabled ? ' — Mic' : ' — turn on the microphone'}`
+                : <>Screen + {audioSettings.microphoneEnabled ? 'Mic' : ''} {audioSettings.systemAudioEnabled ? '+ System Audio' : ''}</>
+              }
+            </p>
+            <p className="text-neutral-600 font-mono text-xs mt-1">
+              {formatQualitySummary(captureQuality)}
             </p>
           </div>
         )}
 
+        {/* Live output to draw annotations on */}
+        {isAnnotating && outputPreview && (
+          <AnnotationSurface
+            stream={outputPreview.stream}
+            aspectRatio={outputPreview.aspectRatio}
+            layer={annotationLayer}
+            tool={annotationTool}
+            color={annotationColor}
+          />
+        )}
+
+        {/* Live output to select the zoom/spotlight region on */}
+        {isSelectingFocus && outputPreview && (
+          <FocusSurface
+            stream={outputPreview.stream}
+            aspectRatio={outputPreview.aspectRatio}
+            onSelect={handleFocusSelect}
+          />
+        )}
+
+        {/* Shared screen to pick the recorded region on */}
+        {isSelectingCrop && sharedScreen && !recordingState.isRecording && (
+          <CropRegionSelector
+            stream={sharedScreen.stream}
+            displaySize={getScreenDimensions(sharedScreen.stream)}
+            region={cropRegion}
+            onRegionChange={handleCropRegionChange}
+            onDone={() => setIsSelectingCrop(false)}
+          />
+        )}
+
+        {/* Countdown before capture starts */}
+        {countdown !== null && (
+          <CountdownOverlay
+            secondsLeft={countdown}
+            onCancel={() => cancelCountdownRef.current?.()}
+          />
+        )}
+
         {/* Camera overlay */}
-        {cameraEnabled && cameraStream && (
+        {recordingMode === 'screen-camera' && cameraStream && !isAnnotating && !isSelectingFocus &&
+          (!recordingState.isRecording || scene === 'screen-bubble') && (
           <CameraOverlay
             stream={cameraStream}
             settings={cameraSettings}
@@ -302,25 +1193,209 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
         )}
       </div>
 
+      {/* Presenter notes, outside the captured area */}
+      {showTeleprompter && (
+        <Teleprompter isRecording={recordingState.isRecording} isPaused={recordingState.isPaused} />
+      )}
+
       {/* Controls */}
       <div className="flex flex-col gap-4">
-        {/* Audio controls */}
+        {/* Audio and device controls */}
         <div className="flex items-center justify-between">
-          <AudioControls
-            settings={audioSettings}
-            onSettingsChange={handleAudioSettingsChange}
-            micStream={micStream}
-            systemStream={systemAudioStream}
-            disabled={recordingState.isRecording}
-          />
+          <div className="flex items-center gap-3">
+            <AudioControls
+              settings={audioSettings}
+              onSettingsChange={handleAudioSettingsChange}
+              micStream={micStream}
+              systemStream={systemAudioStream}
+              disabled={recordingState.isRecording}
+              isTalking={isTalking}
+            />
+            {audioSettings.microphoneEnabled && (
+              <DeviceSelector
+                devices={microphoneDevices}
+                value={audioSettings.microphoneDeviceId}
+                onChange={handleMicrophoneDeviceChange}
+                icon={Mic}
+                label="Microphone"
+              />
+            )}
+            {cameraEnabled && (
+              <DeviceSelector
+                devices={cameraDevices}
+                value={cameraDeviceId}
+                onChange={handleCameraDeviceChange}
+                icon={Camera}
+                label="Camera"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={showTeleprompter ? "default" : "outline"}
+              size="icon"
+              onClick={toggleTeleprompter}
+              title={showTeleprompter ? "Hide notes" : "Show notes"}
+            >
+              <ScrollText className="h-4 w-4" />
+            </Button>
+            {recordingMode === 'screen-camera' && (
+              <SceneSwitcher scene={scene} onSceneChange={handleSceneChange} />
+            )}
+            <RecordingModeSelector
+              mode={recordingMode}
+              onModeChange={setRecordingMode}
+              disabled={recordingState.isRecording}
+            />
+          </div>
         </div>
 
+        {/* Quality and limits */}
+        {!recordingState.isRecording && (
+          <>
+            <QualitySettings
+              quality={captureQuality}
+              onQualityChange={handleCaptureQualityChange}
+              disabled={countdown !== null}
+            />
+            <RecordingLimitsSettings
+              limits={limits}
+              onLimitsChange={handleLimitsChange}
+              disabled={countdown !== null}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPreflightOpen(true)}
+              disabled={countdown !== null}
+              className="self-start text-xs font-mono text-neutral-500"
+            >
+              <ClipboardCheck className="w-3.5 h-3.5 mr-1" />
+              Check devices
+            </Button>
+            {capturesScreen && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleSelectCropRegion}
+                disabled={countdown !== null}
+                className="self-start text-xs font-mono text-neutral-500"
+                title="Record only part of the shared screen"
+              >
+                <Scan className="w-3.5 h-3.5 mr-1" />
+                {cropSize ? `Region ${cropSize.width}×${cropSize.height}` : 'Choose screen region'}
+              </Button>
+            )}
+            {recordingMode === 'screen-camera' && (
+              <label
+                className="flex items-center gap-1.5 text-xs font-mono text-neutral-500"
+                title="Also save the raw screen and camera so the camera can be moved or hidden in the editor"
+              >
+                <input
+                  type="checkbox"
+                  checked={isoRecording}
+                  onChange={(e) => handleIsoRecordingChange(e.target.checked)}
+                  disabled={countdown !== null}
+                  className="accent-blue-500"
+                />
+                Record separate screen and camera tracks
+              </label>
+            )}
+            {recordingMode === 'screen-camera' && (
+              <CameraStyleSettings
+                settings={cameraSettings}
+                onSettingsChange={handleCameraSettingsChange}
+                disabled={countdown !== null}
+              />
+            )}
+            {cameraEnabled && (
+              <CameraEffectPicker
+                effect={cameraSettings.effect}
+                onEffectChange={(effect) => handleCameraSettingsChange({ effect })}
+                disabled={countdown !== null}
+              />
+            )}
+            {recordingMode !== 'audio' && (
+              <BrandingSettings
+                kit={brandingKit}
+                onKitChange={handleBrandingKitChange}
+                disabled={countdown !== null}
+              />
+            )}
+            {recordingMode === 'screen-camera' && (
+              <ChromaKeySettings
+                chromaKey={cameraSettings.chromaKey}
+                onChromaKeyChange={(chromaKey) => handleCameraSettingsChange({ chromaKey })}
+                disabled={countdown !== null}
+              />
+            )}
+          </>
+        )}
+
+        {/* Annotation, marker and focus tools */}
+        {recordingState.isRecording && (
+          <div className="flex items-center justify-between">
+            {recordingMode !== 'audio' && (
+              <AnnotationToolbar
+                isAnnotating={isAnnotating}
+                onToggleAnnotating={toggleAnnotating}
+                tool={annotationTool}
+                onToolChange={setAnnotationTool}
+                color={annotationColor}
+                onColorChange={setAnnotationColor}
+                onUndo={annotationLayer.undo}
+                onClear={annotationLayer.clear}
+              />
+            )}
+            <div className="flex items-center gap-1">
+              <MarkerToolbar
+                markers={recordingState.markers}
+                onAddMarker={handleAddMarker}
+                onLabelChange={handleMarkerLabelChange}
+              />
+              {hasLowerThird && (
+                <Button
+                  variant={isLowerThirdVisible ? "default" : "outline"}
+                  size="icon"
+                  onClick={() => setIsLowerThirdVisible(prev => !prev)}
+                  title={`${isLowerThirdVisible ? 'Hide' : 'Show'} lower third (${formatBinding(shortcutBindings['recorder.toggleLowerThird'])})`}
+                >
+                  <UserSquare className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {(recordingMode === 'screen-camera' || recordingMode === 'screen') && (
+              <FocusToolbar
+                isSelecting={isSelectingFocus}
+                onToggleSelecting={toggleSelectingFocus}
+                isZoomed={isZoomed}
+                onToggleZoom={() => setIsZoomed(prev => !prev)}
+                isSpotlightOn={isSpotlightOn}
+                onToggleSpotlight={() => setIsSpotlightOn(prev => !prev)}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Extra screens and cameras */}
+        {recordingMode !== 'audio' && (
+          <SourceList
+            sources={videoSources}
+            cameraDevices={cameraDevices.filter(device => !cameraEnabled || device.deviceId !== cameraDeviceId)}
+            onAddScreen={handleAddScreenSource}
+            onAddCamera={handleAddCameraSource}
+            onSourceChange={handleSourceChange}
+            onMoveSource={handleMoveSource}
+            onRemoveSource={handleRemoveSource}
+          />
+        )}
+
         {/* Recording controls */}
         <RecordingControls
           recordingState={recordingState}
           cameraEnabled={cameraEnabled}
           hasRecording={false}
-          onStartRecording={startRecording}
+          onStartRecording={handleRecordClick}
           onStopRecording={stopRecording}
           onPauseRecording={pauseRecording}
           onResumeRecording={resumeRecording}
@@ -328,6 +1403,24 @@ export function ScreenRecorder({ onRecordingComplete }: ScreenRecorderProps) {
           onNewRecording={() => {}}
         />
       </div>
+
+      {/* Device check before recording */}
+      <PreflightPanel
+        open={preflightOpen}
+        onOpenChange={setPreflightOpen}
+        onStart={startRecording}
+        microphoneEnabled={audioSettings.microphoneEnabled}
+        microphoneDeviceId={audioSettings.microphoneDeviceId}
+        cameraRequired={cameraEnabled}
+        cameraDeviceId={cameraDeviceId}
+        cameraStream={cameraStream}
+        audioOnly={recordingMode === 'audio'}
+        bytesPerMinute={
+          ((recordingMode === 'audio' ? 0 : captureQuality.videoBitsPerSecond) + captureQuality.audioBitsPerSecond) / 8 * 60
+        }
+        checkBeforeRecording={checkBeforeRecording}
+        onCheckBeforeRecordingChange={handleCheckBeforeRecordingChange}
+      />
     </div>
   );
 }
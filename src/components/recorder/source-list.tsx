@@ -0,0 +1,152 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, Camera, Layers, Monitor, X } from "lucide-react";
+import { CameraShape } from "@/lib/types";
+import { MAIN_CAMERA_SOURCE_ID, SOURCE_SLOTS, SOURCE_SLOT_LABELS, SourceSlot, VideoSource, getSourceSlot, isMainSource } from "@/lib/recorder/sources";
+
+interface SourceListProps {
+  /** Every source in stacking order, the main screen and camera included */
+  sources: VideoSource[];
+  cameraDevices: MediaDeviceInfo[];
+  onAddScreen: () => void;
+  onAddCamera: (deviceId: string) => void;
+  onSourceChange: (id: string, changes: Partial<Pick<VideoSource, 'layout' | 'shape'>>) => void;
+  onMoveSource: (id: string, direction: 1 | -1) => void;
+  onRemoveSource: (id: string) => void;
+}
+
+const SHAPE_LABELS: Record<CameraShape, string> = {
+  rectangle: 'Rect',
+  'rounded-square': 'Rounded',
+  squircle: 'Squircle',
+  circle: 'Circle',
+};
+
+const ADD_SCREEN_VALUE = 'screen';
+
+const selectClassName =
+  "bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500";
+
+function SlotSelect({ value, onChange, label }: { value: SourceSlot | null; onChange: (slot: SourceSlot) => void; label: string }) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value as SourceSlot)}
+      aria-label={label}
+      className={selectClassName}
+    >
+      {value === null && <option value="" disabled>Custom</option>}
+      {(Object.keys(SOURCE_SLOTS) as SourceSlot[]).map((slot) => (
+        <option key={slot} value={slot}>{SOURCE_SLOT_LABELS[slot]}</option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Extra screens and cameras composited with the main recording. Works before
+ * and during recording; the list order is the stacking order, last on top,
+ * and the main screen and camera are placed in it like the rest. Until an
+ * extra source is added there is nothing to arrange, so only the add menu shows.
+ */
+export function SourceList({
+  sources,
+  cameraDevices,
+  onAddScreen,
+  onAddCamera,
+  onSourceChange,
+  onMoveSource,
+  onRemoveSource,
+}: SourceListProps) {
+  const hasExtraSources = sources.some(source => !isMainSource(source));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5 text-neutral-400" title="Show another screen or camera in the recording">
+          <Layers className="w-3.5 h-3.5" />
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value === ADD_SCREEN_VALUE) onAddScreen();
+              else if (e.target.value) onAddCamera(e.target.value);
+            }}
+            aria-label="Add source"
+            className={selectClassName}
+          >
+            <option value="">Add source...</option>
+            <option value={ADD_SCREEN_VALUE}>Another screen or window</option>
+            {cameraDevices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                Camera: {device.label || `Camera ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {hasExtraSources && sources.map((source, index) => {
+        const Icon = source.kind === 'screen' ? Monitor : Camera;
+        const isMain = isMainSource(source);
+        return (
+          <div key={source.id} className="flex flex-wrap items-center gap-2">
+            <span className="flex items-center gap-1.5 w-48 text-xs font-mono text-neutral-400 truncate" title={source.label}>
+              <Icon className="w-3.5 h-3.5 shrink-0" />
+              {source.label}
+            </span>
+            {source.id === MAIN_CAMERA_SOURCE_ID ? (
+              <span className="text-xs font-mono text-neutral-600">Placed by the scene</span>
+            ) : (
+              <SlotSelect
+                value={getSourceSlot(source.layout)}
+                onChange={(slot) => onSourceChange(source.id, { layout: SOURCE_SLOTS[slot] })}
+                label={`${source.label} position`}
+              />
+            )}
+            {!isMain && (
+              <select
+                value={source.shape}
+                onChange={(e) => onSourceChange(source.id, { shape: e.target.value as CameraShape })}
+                aria-label={`${source.label} shape`}
+                className={selectClassName}
+              >
+                {(Object.keys(SHAPE_LABELS) as CameraShape[]).map((shape) => (
+                  <option key={shape} value={shape}>{SHAPE_LABELS[shape]}</option>
+                ))}
+              </select>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onMoveSource(source.id, 1)}
+              disabled={index === sources.length - 1}
+              title="Bring forward"
+            >
+              <ArrowUp className="w-3.5 h-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onMoveSource(source.id, -1)}
+              disabled={index === 0}
+              title="Send backward"
+            >
+              <ArrowDown className="w-3.5 h-3.5" />
+            </Button>
+            {!isMain && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemoveSource(source.id)}
+                title="Remove source"
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
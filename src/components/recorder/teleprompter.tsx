@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect, useRef, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Pause, Pencil, Play, ScrollText } from "lucide-react";
+import { loadPreference, savePreference } from "@/lib/preferences";
+import { formatBinding } from "@/lib/shortcuts";
+import {
+  DEFAULT_TELEPROMPTER_SPEED,
+  ScriptBlock,
+  TELEPROMPTER_SPEEDS,
+  parseInline,
+  parseScript,
+} from "@/lib/recorder/teleprompter";
+import { useShortcutBindings, useShortcuts } from "@/components/shortcuts/use-shortcuts";
+
+interface TeleprompterProps {
+  isRecording: boolean;
+  isPaused: boolean;
+}
+
+const SCRIPT_PREFERENCE = 'teleprompter-script';
+const SPEED_PREFERENCE = 'teleprompter-speed';
+
+const HEADING_CLASSES: Record<1 | 2 | 3, string> = {
+  1: 'text-2xl font-semibold text-neutral-100',
+  2: 'text-xl font-semibold text-neutral-100',
+  3: 'text-lg font-semibold text-neutral-200',
+};
+
+function InlineText({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((span, index) => (
+        <span key={index} className={`${span.bold ? 'font-semibold text-neutral-100' : ''} ${span.italic ? 'italic' : ''}`}>
+          {span.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function ScriptBlockView({ block }: { block: ScriptBlock }) {
+  switch (block.type) {
+    case 'heading':
+      return <p className={HEADING_CLASSES[block.level]}><InlineText text={block.text} /></p>;
+    case 'bullet':
+      return <p className="pl-5 -indent-5">• <InlineText text={block.text} /></p>;
+    default:
+      return <p><InlineText text={block.text} /></p>;
+  }
+}
+
+/**
+ * Speaker notes for the presenter. Lives outside the preview area and is
+ * never drawn by the compositor, so it cannot end up in the recording.
+ * Scrolling starts with the recording and stops while it is paused.
+ */
+export function Teleprompter({ isRecording, isPaused }: TeleprompterProps) {
+  const bindings = useShortcutBindings();
+  const [script, setScript] = useState(() => loadPreference(SCRIPT_PREFERENCE, ''));
+  const [speed, setSpeed] = useState(() => loadPreference(SPEED_PREFERENCE, DEFAULT_TELEPROMPTER_SPEED));
+  const [isEditing, setIsEditing] = useState(() => !script);
+  const [isScrolling, setIsScrolling] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // scrollTop is rounded by the browser, so the exact position is kept here
+  const positionRef = useRef(0);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  const blocks = useMemo(() => parseScript(script), [script]);
+  const isAutoScrolling = isScrolling && !isEditing && !(isRecording && isPaused);
+
+  // Start scrolling with the recording, stop when it ends
+  useEffect(() => {
+    setIsScrolling(isRecording);
+    if (isRecording) setIsEditing(false);
+  }, [isRecording]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!isAutoScrolling || !el) return;
+
+    positionRef.current = el.scrollTop;
+    let lastTime: number | null = null;
+    let frame: number | null = null;
+
+    const step = (time: number) => {
+      // Follow the presenter if they scrolled by hand
+      if (Math.abs(el.scrollTop - positionRef.current) > 1) positionRef.current = el.scrollTop;
+      if (lastTime !== null) {
+        const maxScroll = el.scrollHeight - el.clientHeight;
+        positionRef.current = Math.min(maxScroll, positionRef.current + speedRef.current * (time - lastTime) / 1000);
+        el.scrollTop = positionRef.current;
+      }
+      lastTime = time;
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [isAutoScrolling]);
+
+  const handleScriptChange = (value: string) => {
+    setScript(value);
+    savePreference(SCRIPT_PREFERENCE, value);
+  };
+
+  const changeSpeed = (value: number) => {
+    setSpeed(value);
+    savePreference(SPEED_PREFERENCE, value);
+  };
+
+  const stepSpeed = (direction: 1 | -1) => {
+    const index = TELEPROMPTER_SPEEDS.findIndex(s => s >= speed);
+    const current = index === -1 ? TELEPROMPTER_SPEEDS.length - 1 : index;
+    const next = Math.max(0, Math.min(TELEPROMPTER_SPEEDS.length - 1, current + direction));
+    changeSpeed(TELEPROMPTER_SPEEDS[next]);
+  };
+
+  useShortcuts({
+    'recorder.teleprompterScroll': () => {
+      if (!isEditing) setIsScrolling(prev => !prev);
+    },
+    'recorder.teleprompterSlower': () => stepSpeed(-1),
+    'recorder.teleprompterFaster': () => stepSpeed(1),
+  });
+
+  return (
+    <div className="border border-neutral-800 bg-neutral-950">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-neutral-800">
+        <span className="flex items-center gap-1.5 text-xs font-mono text-neutral-400">
+          <ScrollText className="w-3.5 h-3.5" />
+          Notes — only you can see these
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={speed}
+            onChange={(e) => changeSpeed(Number(e.target.value))}
+            aria-label="Scroll speed"
+            title={`Scroll speed (${formatBinding(bindings['recorder.teleprompterSlower'])} / ${formatBinding(bindings['recorder.teleprompterFaster'])})`}
+            className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs font-mono text-neutral-300 hover:border-neutral-600 focus:outline-none focus:border-blue-500"
+          >
+            {TELEPROMPTER_SPEEDS.map((s) => (
+              <option key={s} value={s}>{s} px/s</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setIsScrolling(prev => !prev)}
+            disabled={isEditing || blocks.length === 0}
+            title={`${isScrolling ? 'Pause' : 'Resume'} scrolling (${formatBinding(bindings['recorder.teleprompterScroll'])})`}
+          >
+            {isScrolling ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant={isEditing ? "default" : "outline"}
+            size="icon"
+            onClick={() => setIsEditing(prev => !prev)}
+            title={isEditing ? "Done editing" : "Edit notes"}
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <textarea
+          value={script}
+          onChange={(e) => handleScriptChange(e.target.value)}
+          placeholder="Paste your script here. Markdown headings, lists and **bold** are supported."
+          aria-label="Notes"
+          className="block w-full h-48 resize-y bg-transparent p-3 text-sm font-mono text-neutral-300 placeholder:text-neutral-600 focus:outline-none"
+        />
+      ) : (
+        <div ref={scrollRef} className="h-48 overflow-y-auto px-4 py-3">
+          {blocks.length === 0 ? (
+            <p className="text-sm font-mono text-neutral-600">No notes yet. Click the pencil to add some.</p>
+          ) : (
+            // Trailing space lets the last lines scroll up to the reading position
+            <div className="space-y-3 pb-32 text-lg leading-relaxed text-neutral-300">
+              {blocks.map((block, index) => (
+                <ScriptBlockView key={index} block={block} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
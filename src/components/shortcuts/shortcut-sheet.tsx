@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Keyboard, RotateCcw } from "lucide-react";
+import {
+  SHORTCUTS,
+  SHORTCUT_SCOPE_LABELS,
+  ShortcutAction,
+  ShortcutScope,
+  formatBinding,
+  getEventBinding,
+  shortcutRegistry,
+} from "@/lib/shortcuts";
+import { useShortcutBindings } from "./use-shortcuts";
+
+interface ShortcutSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCOPE_ORDER: ShortcutScope[] = ['global', 'recorder', 'editor'];
+
+/** Cheat sheet of every shortcut; click a key to rebind it */
+export function ShortcutSheet({ open, onOpenChange }: ShortcutSheetProps) {
+  const bindings = useShortcutBindings();
+  const [editing, setEditing] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<{ action: ShortcutAction; with: ShortcutAction } | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null);
+      setConflict(null);
+    }
+  }, [open]);
+
+  // Capture the next key press, ahead of every other shortcut listener
+  useEffect(() => {
+    if (!editing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setEditing(null);
+        return;
+      }
+      const binding = getEventBinding(e);
+      if (!binding) return;
+
+      const conflictingAction = shortcutRegistry.setBinding(editing, binding);
+      setConflict(conflictingAction ? { action: editing, with: conflictingAction } : null);
+      setEditing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [editing]);
+
+  const actions = Object.keys(SHORTCUTS) as ShortcutAction[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono flex items-center gap-2">
+            <Keyboard className="w-5 h-5" />
+            Keyboard shortcuts
+          </DialogTitle>
+          <DialogDescription className="font-mono text-sm">
+            Click a shortcut, then press the new keys. Esc cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {SCOPE_ORDER.map((scope) => (
+            <div key={scope} className="space-y-1.5">
+              <h3 className="text-xs font-mono uppercase tracking-wide text-neutral-500">
+                {SHORTCUT_SCOPE_LABELS[scope]}
+              </h3>
+              {actions.filter(action => SHORTCUTS[action].scope === scope).map((action) => {
+                const isDefault = bindings[action] === SHORTCUTS[action].defaultBinding;
+                return (
+                  <div key={action} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-neutral-300">{SHORTCUTS[action].label}</span>
+                    <div className="flex items-center gap-1">
+                      {!isDefault && (
+                        <button
+                          onClick={() => shortcutRegistry.resetBinding(action)}
+                          className="p-1 text-neutral-500 hover:text-neutral-300"
+                          title={`Reset to ${formatBinding(SHORTCUTS[action].defaultBinding)}`}
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          setConflict(null);
+                          setEditing(action);
+                        }}
+                        className={`min-w-20 px-2 py-1 rounded border text-xs font-mono transition-all ${
+                          editing === action
+                            ? 'border-blue-500 bg-blue-500/10 text-blue-400 animate-pulse'
+                            : conflict?.action === action
+                            ? 'border-red-500 text-red-400'
+                            : 'border-neutral-700 hover:border-neutral-600 text-neutral-300'
+                        }`}
+                      >
+                        {editing === action ? 'Press keys...' : formatBinding(bindings[action])}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {conflict && (
+          <p className="text-xs font-mono text-red-400">
+            That key is already used for &ldquo;{SHORTCUTS[conflict.with].label}&rdquo;. Rebind that first.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => shortcutRegistry.resetAll()}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset all
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
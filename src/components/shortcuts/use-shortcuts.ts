@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  ShortcutAction,
+  ShortcutBindings,
+  getEventBinding,
+  isTypingTarget,
+  shortcutRegistry,
+} from "@/lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, (e: KeyboardEvent) => void>>;
+
+/** Current bindings; re-renders when a shortcut is rebound */
+export function useShortcutBindings(): ShortcutBindings {
+  return useSyncExternalStore(shortcutRegistry.subscribe, shortcutRegistry.getBindings);
+}
+
+/**
+ * Calls the handler whose binding matches a key press. Leave an action out of
+ * `handlers` to disable it, so its key keeps its normal browser behaviour.
+ */
+export function useShortcuts(handlers: ShortcutHandlers, enabled: boolean = true): void {
+  const bindings = useShortcutBindings();
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e.target)) return;
+      const binding = getEventBinding(e);
+      if (!binding) return;
+
+      const handlers = handlersRef.current;
+      const action = (Object.keys(handlers) as ShortcutAction[]).find(a => bindings[a] === binding);
+      const handler = action ? handlers[action] : undefined;
+      if (!handler) return;
+
+      e.preventDefault();
+      handler(e);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+}
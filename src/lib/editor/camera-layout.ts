@@ -0,0 +1,124 @@
+import {
+  CameraLayoutKeyframe,
+  CameraPosition,
+  CompositeOnlyFeature,
+  CameraSettings,
+  CameraSize,
+  SceneChange,
+} from '../types';
+import { getCameraBubbleRect } from '../recorder/compositor';
+
+/** Keyframes closer together than this are the same moment */
+const KEYFRAME_TIME_EPSILON = 0.05;
+
+export interface CameraLayoutInterval {
+  start: number;
+  end: number;
+  layout: CameraLayoutKeyframe;
+}
+
+/** What a re-layout would drop, as listed to the user */
+export const COMPOSITE_ONLY_FEATURE_LABELS: Record<CompositeOnlyFeature, string> = {
+  annotations: 'drawings',
+  zoom: 'live zoom',
+  spotlight: 'spotlight',
+  branding: 'logo, lower third or caption bar',
+  'extra-sources': 'extra screens or cameras',
+  scenes: 'split or camera-inset scenes',
+  'camera-effects': 'camera background effects',
+  'chroma-key': 'chroma key',
+  'camera-style': 'camera border, shadow, zoom, crop or mirror changes',
+};
+
+/** Bubble placement for a position/size preset, normalized to the output */
+export function getPresetPlacement(
+  position: CameraPosition,
+  size: CameraSize,
+  outputSize: { width: number; height: number }
+): Pick<CameraLayoutKeyframe, 'x' | 'y' | 'size'> {
+  const rect = getCameraBubbleRect({ position, size, shape: 'rectangle' }, outputSize.width, outputSize.height);
+  return {
+    x: rect.x / outputSize.width,
+    y: rect.y / outputSize.height,
+    size: rect.width / outputSize.width,
+  };
+}
+
+/**
+ * The layout as it was recorded: the bubble where it was placed, hidden
+ * while the screen-only scene was active. Only bubble scenes can be
+ * reproduced; recordings that used others are marked `scenes` in
+ * `IsoTracks.compositeOnly` and can't be re-laid out.
+ */
+export function createInitialCameraLayout(
+  settings: CameraSettings,
+  sceneChanges: SceneChange[],
+  outputSize: { width: number; height: number }
+): CameraLayoutKeyframe[] {
+  const rect = getCameraBubbleRect(settings, outputSize.width, outputSize.height);
+  const base: CameraLayoutKeyframe = {
+    time: 0,
+    visible: true,
+    x: rect.x / outputSize.width,
+    y: rect.y / outputSize.height,
+    size: rect.width / outputSize.width,
+    shape: settings.shape,
+  };
+
+  const keyframes = [base];
+  sceneChanges.forEach(change => {
+    const visible = change.layout !== 'screen-only';
+    if (visible !== keyframes[keyframes.length - 1].visible) {
+      keyframes.push({ ...base, time: change.time, visible });
+    }
+  });
+  return keyframes;
+}
+
+export function getCameraLayoutAt(keyframes: CameraLayoutKeyframe[], time: number): CameraLayoutKeyframe {
+  let current = keyframes[0];
+  for (const keyframe of keyframes) {
+    if (keyframe.time > time + KEYFRAME_TIME_EPSILON) break;
+    current = keyframe;
+  }
+  return current;
+}
+
+/** Adds a keyframe, replacing any at the same moment; keeps keyframes sorted */
+export function setCameraLayoutKeyframe(
+  keyframes: CameraLayoutKeyframe[],
+  keyframe: CameraLayoutKeyframe
+): CameraLayoutKeyframe[] {
+  const others = keyframes.filter(k => Math.abs(k.time - keyframe.time) > KEYFRAME_TIME_EPSILON);
+  return [...others, keyframe].sort((a, b) => a.time - b.time);
+}
+
+/** Removes the keyframe at `time`; the one at the start always stays */
+export function removeCameraLayoutKeyframe(keyframes: CameraLayoutKeyframe[], time: number): CameraLayoutKeyframe[] {
+  if (time <= KEYFRAME_TIME_EPSILON) return keyframes;
+  return keyframes.filter(k => Math.abs(k.time - time) > KEYFRAME_TIME_EPSILON);
+}
+
+/** Whether two layouts place the camera the same way throughout */
+export function isSameCameraLayout(a: CameraLayoutKeyframe[], b: CameraLayoutKeyframe[]): boolean {
+  return a.length === b.length && a.every((keyframe, index) => {
+    const other = b[index];
+    return keyframe.time === other.time &&
+      keyframe.visible === other.visible &&
+      keyframe.x === other.x &&
+      keyframe.y === other.y &&
+      keyframe.size === other.size &&
+      keyframe.shape === other.shape;
+  });
+}
+
+/** Splits the recording into spans with a constant layout */
+export function getCameraLayoutIntervals(keyframes: CameraLayoutKeyframe[], duration: number): CameraLayoutInterval[] {
+  return keyframes
+    .filter(k => k.time < duration)
+    .map((layout, index, list) => ({
+      start: index === 0 ? 0 : layout.time,
+      end: list[index + 1]?.time ?? duration,
+      layout,
+    }));
+}
@@ -42,14 +42,6 @@ export async function getFFmpeg(
     
     const ffmpeg = new FFmpeg();
     
-    ffmpeg.on('progress', ({ progress }) => {
-      onProgress?.({
-        stage: 'processing',
-        progress: Math.round(progress * 100),
-        message: `Processing: ${Math.round(progress * 100)}%`,
-      });
-    });
-    
     try {
       // Load FFmpeg core from CDN using UMD build (more compatible)
       const coreURL = await toBlobURL(
@@ -87,6 +79,32 @@ export async function getFFmpeg(
   return loadPromise;
 }
 
+/**
+ * Runs one FFmpeg command, reporting its progress to this caller only. The
+ * instance is shared, so the listener is attached for the command and removed after.
+ */
+export async function execFFmpeg(
+  ffmpeg: FFmpeg,
+  args: string[],
+  onProgress?: (progress: ExportProgress) => void
+): Promise<number> {
+  if (!onProgress) return ffmpeg.exec(args);
+
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress({
+      stage: 'processing',
+      progress: Math.round(progress * 100),
+      message: `Processing: ${Math.round(progress * 100)}%`,
+    });
+  };
+  ffmpeg.on('progress', handleProgress);
+  try {
+    return await ffmpeg.exec(args);
+  } finally {
+    ffmpeg.off('progress', handleProgress);
+  }
+}
+
 export async function writeFileToFFmpeg(
   ffmpeg: FFmpeg,
   filename: string,
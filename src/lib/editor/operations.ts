@@ -1,7 +1,8 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { getFFmpeg, writeFileToFFmpeg, readFileFromFFmpeg, deleteFileFromFFmpeg } from './ffmpeg';
+import { getFFmpeg, execFFmpeg, writeFileToFFmpeg, readFileFromFFmpeg, deleteFileFromFFmpeg } from './ffmpeg';
 import { getActiveSegments } from './timeline';
-import { EditorState, ExportOptions, ExportProgress } from '../types';
+import { getCameraLayoutIntervals } from './camera-layout';
+import { CameraLayoutKeyframe, CameraShape, EditorState, ExportOptions, ExportProgress, IsoTracks } from '../types';
 
 export async function exportVideo(
   videoBlob: Blob,
@@ -61,8 +62,7 @@ export async function exportVideo(
   await deleteFileFromFFmpeg(ffmpeg, 'input.webm');
   await deleteFileFromFFmpeg(ffmpeg, outputFilename);
   
-  const mimeType = options.format === 'mp4' ? 'video/mp4' : 'video/webm';
-  const outputBlob = new Blob([new Uint8Array(outputData).buffer as ArrayBuffer], { type: mimeType });
+  const outputBlob = new Blob([new Uint8Array(outputData).buffer as ArrayBuffer], { type: EXPORT_MIME_TYPES[options.format] });
   
   onProgress({
     stage: 'complete',
@@ -79,26 +79,14 @@ async function processSingleSegment(
   options: ExportOptions,
   onProgress: (progress: ExportProgress) => void
 ): Promise<string> {
-  const outputFilename = options.format === 'mp4' ? 'output.mp4' : 'output.webm';
+  const outputFilename = `output.${options.format}`;
   
   const args = ['-i', 'input.webm'];
   
   args.push('-ss', segment.startTime.toFixed(3));
   args.push('-to', segment.endTime.toFixed(3));
   
-  if (options.format === 'mp4') {
-    args.push('-c:v', 'libx264');
-    args.push('-preset', getPresetForQuality(options.quality));
-    args.push('-crf', getCRFForQuality(options.quality));
-    args.push('-c:a', 'aac');
-    args.push('-b:a', '128k');
-    args.push('-movflags', '+faststart');
-  } else {
-    args.push('-c:v', 'libvpx-vp9');
-    args.push('-crf', getCRFForQuality(options.quality));
-    args.push('-b:v', '0');
-    args.push('-c:a', 'libopus');
-  }
+  args.push(...getEncodingArgs(options));
   
   args.push('-y', outputFilename);
   
@@ -108,7 +96,7 @@ async function processSingleSegment(
     message: 'Encoding video...',
   });
   
-  await ffmpeg.exec(args);
+  await execFFmpeg(ffmpeg, args, onProgress);
   
   return outputFilename;
 }
@@ -132,13 +120,13 @@ async function processMultipleSegments(
       message: `Processing segment ${i + 1} of ${segments.length}...`,
     });
     
-    await ffmpeg.exec([
+    await execFFmpeg(ffmpeg, [
       '-i', 'input.webm',
       '-ss', segment.startTime.toFixed(3),
       '-to', segment.endTime.toFixed(3),
       '-c', 'copy',
       '-y', segmentFile,
-    ]);
+    ], onProgress);
     
     segmentFiles.push(segmentFile);
   }
@@ -154,7 +142,7 @@ async function processMultipleSegments(
     message: 'Merging segments...',
   });
   
-  const outputFilename = options.format === 'mp4' ? 'output.mp4' : 'output.webm';
+  const outputFilename = `output.${options.format}`;
   
   const args = [
     '-f', 'concat',
@@ -162,23 +150,11 @@ async function processMultipleSegments(
     '-i', 'concat.txt',
   ];
   
-  if (options.format === 'mp4') {
-    args.push('-c:v', 'libx264');
-    args.push('-preset', getPresetForQuality(options.quality));
-    args.push('-crf', getCRFForQuality(options.quality));
-    args.push('-c:a', 'aac');
-    args.push('-b:a', '128k');
-    args.push('-movflags', '+faststart');
-  } else {
-    args.push('-c:v', 'libvpx-vp9');
-    args.push('-crf', getCRFForQuality(options.quality));
-    args.push('-b:v', '0');
-    args.push('-c:a', 'libopus');
-  }
+  args.push(...getEncodingArgs(options));
   
   args.push('-y', outputFilename);
   
-  await ffmpeg.exec(args);
+  await execFFmpeg(ffmpeg, args, onProgress);
   
   // Cleanup segment files
   for (const file of segmentFiles) {
@@ -189,6 +165,148 @@ async function processMultipleSegments(
   return outputFilename;
 }
 
+/** Matches the compositor's bubble: corner radius at a 240px-wide bubble, and the rounded-square ratio */
+const RECTANGLE_CORNER_RADIUS = 8;
+const ROUNDED_SQUARE_CORNER_RATIO = 0.22;
+const REFERENCE_BUBBLE_WIDTH = 240;
+
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+/** geq alpha expression cutting the bubble shape out of a W x H frame */
+function getShapeAlpha(shape: CameraShape, cornerRadius: number): string {
+  switch (shape) {
+    case 'circle':
+      return 'if(lte(hypot(X-W/2,Y-H/2),W/2),255,0)';
+    case 'squircle':
+      return 'if(lte(pow(abs(X-W/2)/(W/2),4)+pow(abs(Y-H/2)/(H/2),4),1),255,0)';
+    default: {
+      const r = cornerRadius.toFixed(2);
+      return `if(lte(hypot(max(abs(X-W/2)-(W/2-${r}),0),max(abs(Y-H/2)-(H/2-${r}),0)),${r}),255,0)`;
+    }
+  }
+}
+
+/**
+ * Builds the filter graph that lays the camera over the screen per layout
+ * interval. Each visible interval gets its own scaled, shaped copy of the
+ * camera, overlaid only while the interval is active.
+ */
+function buildCameraLayoutFilter(
+  keyframes: CameraLayoutKeyframe[],
+  duration: number,
+  iso: IsoTracks
+): string {
+  const { width, height } = iso.outputSize;
+  const crop = iso.screenCrop
+    ? `crop=iw*${iso.screenCrop.width.toFixed(4)}:ih*${iso.screenCrop.height.toFixed(4)}:iw*${iso.screenCrop.x.toFixed(4)}:ih*${iso.screenCrop.y.toFixed(4)},`
+    : '';
+  const visible = getCameraLayoutIntervals(keyframes, duration).filter(interval => interval.layout.visible);
+  const filters = [
+    `[0:v]${crop}scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1[base]`,
+  ];
+
+  if (visible.length === 0) {
+    filters.push('[base]null[vout]');
+    return filters.join(';');
+  }
+
+  const mirror = iso.cameraSettings.mirror !== false ? 'hflip,' : '';
+  const cameraLabels = visible.map((_, i) => `[cam${i}]`).join('');
+  filters.push(`[1:v]${mirror}split=${visible.length}${cameraLabels}`);
+
+  let previous = 'base';
+  visible.forEach(({ start, end, layout }, i) => {
+    const boxWidth = layout.size * width;
+    const boxHeight = boxWidth * 0.75;
+    // Shapes other than the rectangle are squares centered in the 4:3 box
+    const isSquare = layout.shape !== 'rectangle';
+    const bubbleWidth = even(isSquare ? boxHeight : boxWidth);
+    const bubbleHeight = even(boxHeight);
+    const aspect = bubbleWidth / bubbleHeight;
+    const cornerRadius = layout.shape === 'rounded-square'
+      ? bubbleWidth * ROUNDED_SQUARE_CORNER_RATIO
+      : (RECTANGLE_CORNER_RADIUS * boxWidth) / REFERENCE_BUBBLE_WIDTH;
+    const x = Math.round(layout.x * width + (boxWidth - bubbleWidth) / 2);
+    const y = Math.round(layout.y * height);
+    const output = i === visible.length - 1 ? 'vout' : `v${i}`;
+
+    filters.push(
+      `[cam${i}]crop='min(iw,ih*${aspect.toFixed(4)})':'min(ih,iw/${aspect.toFixed(4)})',` +
+      `scale=${bubbleWidth}:${bubbleHeight},format=yuva420p,` +
+      `geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':a='${getShapeAlpha(layout.shape, cornerRadius)}'[bubble${i}]`
+    );
+    filters.push(
+      `[${previous}][bubble${i}]overlay=${x}:${y}:enable='between(t,${start.toFixed(3)},${end.toFixed(3)})'[${output}]`
+    );
+    previous = output;
+  });
+
+  return filters.join(';');
+}
+
+/**
+ * Re-renders the recording from its isolated screen and camera tracks with a
+ * new camera layout. Audio is taken from the original composite. The result
+ * is a full-length WebM that can go through `exportVideo` like the original.
+ */
+export async function renderCameraLayout(
+  compositeBlob: Blob,
+  iso: IsoTracks,
+  keyframes: CameraLayoutKeyframe[],
+  duration: number,
+  onProgress: (progress: ExportProgress) => void
+): Promise<Blob> {
+  const ffmpeg = await getFFmpeg(onProgress);
+
+  onProgress({
+    stage: 'preparing',
+    progress: 5,
+    message: 'Preparing camera layout...',
+  });
+
+  await writeFileToFFmpeg(ffmpeg, 'iso-screen.webm', iso.screen);
+  await writeFileToFFmpeg(ffmpeg, 'iso-camera.webm', iso.camera);
+  await writeFileToFFmpeg(ffmpeg, 'iso-composite.webm', compositeBlob);
+
+  onProgress({
+    stage: 'processing',
+    progress: 10,
+    message: 'Re-rendering camera layout...',
+  });
+
+  await execFFmpeg(ffmpeg, [
+    '-i', 'iso-screen.webm',
+    '-i', 'iso-camera.webm',
+    '-i', 'iso-composite.webm',
+    '-filter_complex', buildCameraLayoutFilter(keyframes, duration, iso),
+    '-map', '[vout]',
+    '-map', '2:a?',
+    '-t', duration.toFixed(3),
+    // Intermediate file: fast VP8 at a generous bitrate, the real encode happens in exportVideo
+    '-c:v', 'libvpx',
+    '-deadline', 'realtime',
+    '-cpu-used', '8',
+    '-b:v', '8M',
+    '-c:a', 'copy',
+    '-y', 'relayout.webm',
+  ], onProgress);
+
+  const outputData = await readFileFromFFmpeg(ffmpeg, 'relayout.webm');
+
+  await deleteFileFromFFmpeg(ffmpeg, 'iso-screen.webm');
+  await deleteFileFromFFmpeg(ffmpeg, 'iso-camera.webm');
+  await deleteFileFromFFmpeg(ffmpeg, 'iso-composite.webm');
+  await deleteFileFromFFmpeg(ffmpeg, 'relayout.webm');
+
+  if (outputData.length === 0) {
+    throw new Error('Camera re-layout produced no output');
+  }
+
+  return new Blob([new Uint8Array(outputData).buffer as ArrayBuffer], { type: 'video/webm' });
+}
+
 function getPresetForQuality(quality: ExportOptions['quality']): string {
   switch (quality) {
     case 'low': return 'veryfast';
@@ -198,6 +316,51 @@ function getPresetForQuality(quality: ExportOptions['quality']): string {
   }
 }
 
+const EXPORT_MIME_TYPES: Record<ExportOptions['format'], string> = {
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  opus: 'audio/ogg',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+function getEncodingArgs(options: ExportOptions): string[] {
+  switch (options.format) {
+    case 'mp4':
+      return [
+        '-c:v', 'libx264',
+        '-preset', getPresetForQuality(options.quality),
+        '-crf', getCRFForQuality(options.quality),
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-movflags', '+faststart',
+      ];
+    case 'opus':
+      return ['-vn', '-c:a', 'libopus', '-b:a', getAudioBitrateForQuality(options.quality)];
+    case 'mp3':
+      return ['-vn', '-c:a', 'libmp3lame', '-b:a', getAudioBitrateForQuality(options.quality)];
+    case 'wav':
+      return ['-vn', '-c:a', 'pcm_s16le'];
+    case 'webm':
+    default:
+      return [
+        '-c:v', 'libvpx-vp9',
+        '-crf', getCRFForQuality(options.quality),
+        '-b:v', '0',
+        '-c:a', 'libopus',
+      ];
+  }
+}
+
+function getAudioBitrateForQuality(quality: ExportOptions['quality']): string {
+  switch (quality) {
+    case 'low': return '64k';
+    case 'medium': return '128k';
+    case 'high': return '192k';
+    default: return '128k';
+  }
+}
+
 function getCRFForQuality(quality: ExportOptions['quality']): string {
   switch (quality) {
     case 'low': return '28';
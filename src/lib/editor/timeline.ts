@@ -1,4 +1,4 @@
-import { TimelineSegment, EditorState } from '../types';
+import { TimelineSegment, EditorState, RecordingMarker } from '../types';
 
 export function createInitialEditorState(duration: number): EditorState {
   return {
@@ -139,6 +139,19 @@ export function getNextActiveTime(state: EditorState, currentTime: number): numb
   return activeSegments[0]?.startTime || 0;
 }
 
+/** Markers closer than this to the playhead count as "here", so jumping moves on */
+const MARKER_JUMP_EPSILON = 0.1;
+
+export function getPreviousMarker(markers: RecordingMarker[], currentTime: number): RecordingMarker | null {
+  const earlier = markers.filter(m => m.time < currentTime - MARKER_JUMP_EPSILON);
+  return earlier.reduce<RecordingMarker | null>((best, m) => (!best || m.time > best.time ? m : best), null);
+}
+
+export function getNextMarker(markers: RecordingMarker[], currentTime: number): RecordingMarker | null {
+  const later = markers.filter(m => m.time > currentTime + MARKER_JUMP_EPSILON);
+  return later.reduce<RecordingMarker | null>((best, m) => (!best || m.time < best.time ? m : best), null);
+}
+
 export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
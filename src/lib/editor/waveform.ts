@@ -0,0 +1,34 @@
+/**
+ * Decodes a recording and reduces it to `bucketCount` peak levels (0–1), one
+ * per horizontal slice of the waveform. Returns null if the audio can't be
+ * decoded.
+ */
+export async function computeWaveformPeaks(blob: Blob, bucketCount: number): Promise<number[] | null> {
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const samplesPerBucket = Math.max(1, Math.floor(buffer.length / bucketCount));
+    const peaks: number[] = [];
+
+    for (let bucket = 0; bucket < bucketCount; bucket++) {
+      const start = bucket * samplesPerBucket;
+      const end = Math.min(buffer.length, start + samplesPerBucket);
+      let peak = 0;
+      for (const channel of channels) {
+        for (let i = start; i < end; i++) {
+          const value = Math.abs(channel[i]);
+          if (value > peak) peak = value;
+        }
+      }
+      peaks.push(Math.min(1, peak));
+    }
+
+    return peaks;
+  } catch (error) {
+    console.error('Failed to decode audio for the waveform:', error);
+    return null;
+  } finally {
+    audioContext.close();
+  }
+}
@@ -0,0 +1,23 @@
+const PREFERENCE_PREFIX = 'poor-mans-loom:';
+
+export function loadPreference<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFERENCE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (err) {
+    console.error(`Error reading preference "${key}":`, err);
+    return fallback;
+  }
+}
+
+export function savePreference<T>(key: string, value: T): void {
+  try {
+    if (value === undefined) {
+      localStorage.removeItem(PREFERENCE_PREFIX + key);
+    } else {
+      localStorage.setItem(PREFERENCE_PREFIX + key, JSON.stringify(value));
+    }
+  } catch (err) {
+    console.error(`Error saving preference "${key}":`, err);
+  }
+}
@@ -0,0 +1,200 @@
+export type AnnotationTool = 'pen' | 'arrow' | 'rectangle' | 'highlighter' | 'laser';
+
+/** Point in canvas space normalized to 0..1, so strokes survive any output size */
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface AnnotationStroke {
+  id: string;
+  tool: AnnotationTool;
+  color: string;
+  points: AnnotationPoint[];
+  /** performance.now() when the pointer was released, null while drawing */
+  endedAt: number | null;
+}
+
+export interface AnnotationLayer {
+  beginStroke: (tool: AnnotationTool, color: string, point: AnnotationPoint) => void;
+  extendStroke: (point: AnnotationPoint) => void;
+  endStroke: () => void;
+  undo: () => void;
+  clear: () => void;
+  /** Returns whether anything was drawn */
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => boolean;
+}
+
+/** How long a laser stroke stays fully visible after release, then how long it fades */
+const LASER_HOLD_MS = 400;
+const LASER_FADE_MS = 800;
+
+/** Stroke widths as a fraction of the canvas width */
+const TOOL_WIDTH: Record<AnnotationTool, number> = {
+  pen: 0.003,
+  arrow: 0.003,
+  rectangle: 0.003,
+  highlighter: 0.015,
+  laser: 0.004,
+};
+
+function getLaserOpacity(stroke: AnnotationStroke, now: number): number {
+  if (stroke.endedAt === null) return 1;
+  const sinceRelease = now - stroke.endedAt - LASER_HOLD_MS;
+  if (sinceRelease <= 0) return 1;
+  return Math.max(0, 1 - sinceRelease / LASER_FADE_MS);
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, points: AnnotationPoint[], width: number, height: number) {
+  ctx.beginPath();
+  ctx.moveTo(points[0].x * width, points[0].y * height);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x * width, points[i].y * height);
+  }
+}
+
+function drawArrow(
+  ctx: CanvasRenderingContext2D,
+  from: AnnotationPoint,
+  to: AnnotationPoint,
+  width: number,
+  height: number,
+  lineWidth: number
+) {
+  const fromX = from.x * width;
+  const fromY = from.y * height;
+  const toX = to.x * width;
+  const toY = to.y * height;
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  const headLength = lineWidth * 5;
+
+  ctx.beginPath();
+  ctx.moveTo(fromX, fromY);
+  ctx.lineTo(toX, toY);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawStroke(
+  ctx: CanvasRenderingContext2D,
+  stroke: AnnotationStroke,
+  width: number,
+  height: number,
+  now: number
+) {
+  const { points } = stroke;
+  if (points.length === 0) return;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const lineWidth = Math.max(2, TOOL_WIDTH[stroke.tool] * width);
+
+  ctx.save();
+  ctx.strokeStyle = stroke.color;
+  ctx.fillStyle = stroke.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (stroke.tool) {
+    case 'pen':
+      tracePath(ctx, points, width, height);
+      ctx.stroke();
+      break;
+    case 'highlighter':
+      ctx.globalAlpha = 0.35;
+      ctx.lineCap = 'square';
+      tracePath(ctx, points, width, height);
+      ctx.stroke();
+      break;
+    case 'laser':
+      ctx.globalAlpha = getLaserOpacity(stroke, now);
+      ctx.shadowColor = stroke.color;
+      ctx.shadowBlur = lineWidth * 3;
+      tracePath(ctx, points, width, height);
+      ctx.stroke();
+      break;
+    case 'arrow':
+      drawArrow(ctx, first, last, width, height, lineWidth);
+      break;
+    case 'rectangle':
+      ctx.strokeRect(
+        Math.min(first.x, last.x) * width,
+        Math.min(first.y, last.y) * height,
+        Math.abs(last.x - first.x) * width,
+        Math.abs(last.y - first.y) * height
+      );
+      break;
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Holds the strokes drawn by the presenter during a recording. The compositor
+ * calls `draw` every frame, so strokes land in the recorded canvas stream.
+ */
+export function createAnnotationLayer(): AnnotationLayer {
+  let strokes: AnnotationStroke[] = [];
+  let activeStroke: AnnotationStroke | null = null;
+
+  const beginStroke = (tool: AnnotationTool, color: string, point: AnnotationPoint) => {
+    activeStroke = {
+      id: crypto.randomUUID(),
+      tool,
+      color,
+      points: [point],
+      endedAt: null,
+    };
+    strokes.push(activeStroke);
+  };
+
+  const extendStroke = (point: AnnotationPoint) => {
+    if (!activeStroke) return;
+    // Shapes only need their anchor and the current corner
+    if (activeStroke.tool === 'arrow' || activeStroke.tool === 'rectangle') {
+      activeStroke.points = [activeStroke.points[0], point];
+    } else {
+      activeStroke.points.push(point);
+    }
+  };
+
+  const endStroke = () => {
+    if (!activeStroke) return;
+    activeStroke.endedAt = performance.now();
+    activeStroke = null;
+  };
+
+  const undo = () => {
+    // Laser strokes vanish on their own, so undo skips them
+    for (let i = strokes.length - 1; i >= 0; i--) {
+      if (strokes[i].tool !== 'laser') {
+        if (strokes[i] === activeStroke) activeStroke = null;
+        strokes.splice(i, 1);
+        return;
+      }
+    }
+  };
+
+  const clear = () => {
+    strokes = [];
+    activeStroke = null;
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    if (strokes.length === 0) return false;
+    const now = performance.now();
+
+    strokes = strokes.filter(stroke => stroke.tool !== 'laser' || getLaserOpacity(stroke, now) > 0);
+    strokes.forEach(stroke => drawStroke(ctx, stroke, width, height, now));
+    return strokes.length > 0;
+  };
+
+  return { beginStroke, extendStroke, endStroke, undo, clear, draw };
+}
@@ -1,11 +1,46 @@
+import { MicProcessingProfile } from '../types';
+import { createMicProcessingChain } from './mic-processing';
+import { startWorkerInterval } from './frame-scheduler';
+
+export type AudioSource = 'microphone' | 'system';
+
+export interface AudioMixerOptions {
+  microphoneGain?: number;
+  systemGain?: number;
+  microphoneMuted?: boolean;
+  systemMuted?: boolean;
+  duckingEnabled?: boolean;
+  micProcessing?: MicProcessingProfile;
+}
+
 export interface AudioMixerResult {
   mixedStream: MediaStream;
   micStream: MediaStream | null;
   systemStream: MediaStream | null;
   audioContext: AudioContext;
+  /**
+   * Replaces, adds (from null) or removes (to null) the microphone source.
+   * The mixed output track is untouched, so an active MediaRecorder keeps going.
+   */
+  replaceMicStream: (stream: MediaStream | null) => void;
+  setGain: (source: AudioSource, gain: number) => void;
+  setMuted: (source: AudioSource, muted: boolean) => void;
+  /** Automatically lowers system audio while the microphone picks up speech */
+  setDuckingEnabled: (enabled: boolean) => void;
+  /** Switches the mic's filter/gate/compressor/limiter profile while recording */
+  setMicProcessing: (profile: MicProcessingProfile) => void;
   cleanup: () => void;
 }
 
+/** Mic RMS above which the presenter is considered to be speaking */
+const DUCKING_SPEECH_THRESHOLD = 0.02;
+/** System audio gain multiplier while ducked */
+const DUCKING_LEVEL = 0.25;
+/** How long after speech stops before system audio is restored */
+const DUCKING_HOLD_SECONDS = 0.4;
+/** How often ducking looks at the mic level */
+const DUCKING_CHECK_INTERVAL_MS = 50;
+
 export type MicError = 'permission_denied' | 'not_found' | 'in_use' | 'unknown';
 
 export interface MicErrorResult {
@@ -60,32 +95,125 @@ export async function getAudioDevices(): Promise<MediaDeviceInfo[]> {
 
 export function createAudioMixer(
   micStream: MediaStream | null,
-  systemAudioStream: MediaStream | null
+  systemAudioStream: MediaStream | null,
+  options: AudioMixerOptions = {}
 ): AudioMixerResult {
   const audioContext = new AudioContext();
   const destination = audioContext.createMediaStreamDestination();
   
-  const sources: AudioNode[] = [];
+  const levels: Record<AudioSource, { gain: number; muted: boolean }> = {
+    microphone: { gain: options.microphoneGain ?? 1.0, muted: options.microphoneMuted ?? false },
+    system: { gain: options.systemGain ?? 1.0, muted: options.systemMuted ?? false },
+  };
   
-  if (micStream && micStream.getAudioTracks().length > 0) {
-    const micSource = audioContext.createMediaStreamSource(micStream);
-    const micGain = audioContext.createGain();
-    micGain.gain.value = 1.0;
-    micSource.connect(micGain);
-    micGain.connect(destination);
-    sources.push(micSource, micGain);
-  }
+  // The mic gain stays connected for the mixer's lifetime; only its source is swapped
+  const micGain = audioContext.createGain();
+  micGain.gain.value = levels.microphone.muted ? 0 : levels.microphone.gain;
+  micGain.connect(destination);
+  
+  // Processing runs before gain, so the volume slider never changes how hard the compressor works
+  const micProcessing = createMicProcessingChain(audioContext, options.micProcessing ?? 'off');
+  micProcessing.output.connect(micGain);
+  
+  // Listens to the mic after gain/mute, so a muted or push-to-talk mic never ducks
+  const micAnalyser = audioContext.createAnalyser();
+  micAnalyser.fftSize = 1024;
+  micGain.connect(micAnalyser);
+  
+  const systemGain = audioContext.createGain();
+  systemGain.gain.value = levels.system.muted ? 0 : levels.system.gain;
+  const duckingGain = audioContext.createGain();
+  duckingGain.gain.value = 1.0;
+  systemGain.connect(duckingGain);
+  duckingGain.connect(destination);
+  
+  const sources: AudioNode[] = [micGain, micAnalyser, systemGain, duckingGain];
+  let micSource: MediaStreamAudioSourceNode | null = null;
+  
+  const replaceMicStream = (stream: MediaStream | null) => {
+    if (micSource) {
+      try {
+        micSource.disconnect();
+      } catch {
+        // Already disconnected
+      }
+      micSource = null;
+    }
+    
+    if (stream && stream.getAudioTracks().length > 0) {
+      micSource = audioContext.createMediaStreamSource(stream);
+      micSource.connect(micProcessing.input);
+    }
+    
+    result.micStream = micSource ? stream : null;
+  };
   
   if (systemAudioStream && systemAudioStream.getAudioTracks().length > 0) {
     const systemSource = audioContext.createMediaStreamSource(systemAudioStream);
-    const systemGain = audioContext.createGain();
-    systemGain.gain.value = 1.0;
     systemSource.connect(systemGain);
-    systemGain.connect(destination);
-    sources.push(systemSource, systemGain);
+    sources.push(systemSource);
   }
   
+  const applyLevel = (source: AudioSource) => {
+    const node = source === 'microphone' ? micGain : systemGain;
+    const { gain, muted } = levels[source];
+    // Short ramp avoids zipper noise while dragging a slider
+    node.gain.setTargetAtTime(muted ? 0 : gain, audioContext.currentTime, 0.015);
+  };
+  
+  const setGain = (source: AudioSource, gain: number) => {
+    levels[source].gain = Math.max(0, gain);
+    applyLevel(source);
+  };
+  
+  const setMuted = (source: AudioSource, muted: boolean) => {
+    levels[source].muted = muted;
+    applyLevel(source);
+  };
+  
+  // Ducking: lower system audio while the presenter is speaking. Checked on a
+  // worker timer, which keeps its rate while the tab is hidden
+  let stopDuckingTimer: (() => void) | null = null;
+  let lastSpeechTime = 0;
+  let isDucked = false;
+  const levelBuffer = new Float32Array(micAnalyser.fftSize);
+  
+  const checkSpeech = () => {
+    micAnalyser.getFloatTimeDomainData(levelBuffer);
+    let sumSquares = 0;
+    for (let i = 0; i < levelBuffer.length; i++) {
+      sumSquares += levelBuffer[i] * levelBuffer[i];
+    }
+    const rms = Math.sqrt(sumSquares / levelBuffer.length);
+    const now = audioContext.currentTime;
+    
+    if (rms > DUCKING_SPEECH_THRESHOLD) {
+      lastSpeechTime = now;
+      if (!isDucked) {
+        isDucked = true;
+        duckingGain.gain.setTargetAtTime(DUCKING_LEVEL, now, 0.05);
+      }
+    } else if (isDucked && now - lastSpeechTime > DUCKING_HOLD_SECONDS) {
+      isDucked = false;
+      duckingGain.gain.setTargetAtTime(1.0, now, 0.25);
+    }
+  };
+  
+  const setDuckingEnabled = (enabled: boolean) => {
+    if (enabled && !stopDuckingTimer) {
+      stopDuckingTimer = startWorkerInterval(DUCKING_CHECK_INTERVAL_MS, checkSpeech);
+    } else if (!enabled && stopDuckingTimer) {
+      stopDuckingTimer();
+      stopDuckingTimer = null;
+      isDucked = false;
+      duckingGain.gain.setTargetAtTime(1.0, audioContext.currentTime, 0.1);
+    }
+  };
+  
   const cleanup = () => {
+    setDuckingEnabled(false);
+    replaceMicStream(null);
+    micProcessing.dispose();
     sources.forEach(source => {
       try {
         source.disconnect();
@@ -99,13 +227,55 @@ export function createAudioMixer(
     }
   };
   
-  return {
+  const result: AudioMixerResult = {
     mixedStream: destination.stream,
-    micStream,
+    micStream: null,
     systemStream: systemAudioStream,
     audioContext,
+    replaceMicStream,
+    setGain,
+    setMuted,
+    setDuckingEnabled,
+    setMicProcessing: micProcessing.setProfile,
     cleanup,
   };
+  
+  replaceMicStream(micStream);
+  setDuckingEnabled(options.duckingEnabled ?? false);
+  
+  return result;
+}
+
+export function getSupportedAudioMimeType(): string {
+  const types = [
+    'audio/webm;codecs=opus',
+    'audio/webm',
+    'audio/ogg;codecs=opus',
+    'audio/mp4',
+  ];
+  
+  for (const type of types) {
+    if (MediaRecorder.isTypeSupported(type)) {
+      return type;
+    }
+  }
+  
+  return 'audio/webm';
+}
+
+/** Records just the audio tracks of `stream`, for audio-only recordings */
+export function createAudioRecorder(stream: MediaStream, audioBitsPerSecond?: number): MediaRecorder {
+  const mimeType = getSupportedAudioMimeType();
+  return new MediaRecorder(new MediaStream(stream.getAudioTracks()), { mimeType, audioBitsPerSecond });
+}
+
+export function createAudioBlob(chunks: BlobPart[]): Blob {
+  return new Blob(chunks, { type: getSupportedAudioMimeType() });
+}
+
+/** Audio-only recordings are the ones whose container type is audio */
+export function isAudioOnlyBlob(blob: Blob): boolean {
+  return blob.type.startsWith('audio/');
 }
 
 export function stopAudioStream(stream: MediaStream | null): void {
@@ -0,0 +1,182 @@
+import { BrandingCorner, BrandingKit, DEFAULT_BRANDING_KIT } from '../types';
+import { easeInOutCubic } from './viewport';
+
+export interface BrandingLayer {
+  setKit: (kit: BrandingKit) => void;
+  /** Slides the lower third in or out */
+  setLowerThirdVisible: (visible: boolean) => void;
+  /** Returns whether anything was drawn */
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => boolean;
+}
+
+export const BRANDING_CORNERS: BrandingCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/** Logos are downscaled to this many pixels on their longest side before they are stored */
+const MAX_LOGO_PIXELS = 512;
+const LOWER_THIRD_ANIMATION_MS = 400;
+/** Distance from the frame edges, relative to the output width */
+const MARGIN_RATIO = 0.03;
+/** Caption bar height relative to the output height */
+const CAPTION_BAR_RATIO = 0.07;
+/** Lower-third font sizes relative to the output height */
+const NAME_FONT_RATIO = 0.045;
+const TITLE_FONT_RATIO = 0.03;
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+/**
+ * Reads an uploaded image into a small PNG data URL that fits in local
+ * storage. Returns null if the file is not a readable image.
+ */
+export async function readLogoFile(file: File): Promise<string | null> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const scale = Math.min(1, MAX_LOGO_PIXELS / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } catch (err) {
+    console.error('Error reading logo image:', err);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function drawCaptionBar(ctx: CanvasRenderingContext2D, text: string, width: number, height: number, barHeight: number) {
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  ctx.fillRect(0, height - barHeight, width, barHeight);
+  ctx.fillStyle = '#fff';
+  ctx.font = `500 ${Math.round(barHeight * 0.42)}px ${FONT_FAMILY}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const margin = width * MARGIN_RATIO;
+  ctx.fillText(text, width / 2, height - barHeight / 2, width - margin * 2);
+  ctx.restore();
+}
+
+function drawLowerThird(
+  ctx: CanvasRenderingContext2D,
+  kit: BrandingKit['lowerThird'],
+  width: number,
+  height: number,
+  bottom: number,
+  amount: number
+) {
+  const margin = width * MARGIN_RATIO;
+  const nameSize = Math.round(height * NAME_FONT_RATIO);
+  const titleSize = Math.round(height * TITLE_FONT_RATIO);
+  const padding = nameSize * 0.5;
+  const accentWidth = Math.max(3, nameSize * 0.15);
+  const nameFont = `600 ${nameSize}px ${FONT_FAMILY}`;
+  const titleFont = `400 ${titleSize}px ${FONT_FAMILY}`;
+
+  ctx.save();
+  ctx.font = nameFont;
+  const nameWidth = ctx.measureText(kit.name).width;
+  ctx.font = titleFont;
+  const titleWidth = kit.title ? ctx.measureText(kit.title).width : 0;
+
+  const boxWidth = Math.min(width - margin * 2, Math.max(nameWidth, titleWidth) + padding * 2 + accentWidth);
+  const boxHeight = padding * 2 + nameSize + (kit.title ? titleSize * 1.4 : 0);
+  // Slides in from the left edge while fading in
+  const x = margin - (boxWidth + margin) * (1 - amount);
+  const y = bottom - margin - boxHeight;
+
+  ctx.globalAlpha = amount;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = kit.color;
+  ctx.fillRect(x, y, accentWidth, boxHeight);
+
+  const textX = x + accentWidth + padding;
+  const maxTextWidth = boxWidth - accentWidth - padding * 2;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#fff';
+  ctx.font = nameFont;
+  ctx.fillText(kit.name, textX, y + padding, maxTextWidth);
+  if (kit.title) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.font = titleFont;
+    ctx.fillText(kit.title, textX, y + padding + nameSize * 1.15, maxTextWidth);
+  }
+  ctx.restore();
+}
+
+/**
+ * Draws the branding kit over the composited frame. Like the annotation
+ * layer, it is owned by the recorder and handed to the compositor, so edits
+ * show up in the recording immediately.
+ */
+export function createBrandingLayer(): BrandingLayer {
+  let kit: BrandingKit = DEFAULT_BRANDING_KIT;
+  let logoImage: HTMLImageElement | null = null;
+  let logoSrc: string | null = null;
+  let lowerThirdFrom = 0;
+  let lowerThirdTo = 0;
+  let lowerThirdStartedAt = 0;
+
+  const lowerThirdAmount = () => {
+    const progress = Math.min(1, (performance.now() - lowerThirdStartedAt) / LOWER_THIRD_ANIMATION_MS);
+    return lowerThirdFrom + (lowerThirdTo - lowerThirdFrom) * easeInOutCubic(progress);
+  };
+
+  const setKit = (next: BrandingKit) => {
+    kit = next;
+    const src = next.logo?.src ?? null;
+    if (src === logoSrc) return;
+    logoSrc = src;
+    logoImage = null;
+    if (!src) return;
+
+    const image = new Image();
+    image.onload = () => {
+      if (logoSrc === src) logoImage = image;
+    };
+    image.onerror = () => console.error('Error loading branding logo');
+    image.src = src;
+  };
+
+  const setLowerThirdVisible = (visible: boolean) => {
+    lowerThirdFrom = lowerThirdAmount();
+    lowerThirdTo = visible ? 1 : 0;
+    lowerThirdStartedAt = performance.now();
+  };
+
+  const draw = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const captionText = kit.caption.text.trim();
+    const captionHeight = kit.caption.enabled && captionText ? Math.round(height * CAPTION_BAR_RATIO) : 0;
+    if (captionHeight > 0) drawCaptionBar(ctx, captionText, width, height, captionHeight);
+
+    let drawn = captionHeight > 0;
+
+    const amount = lowerThirdAmount();
+    if (amount > 0 && kit.lowerThird.name.trim()) {
+      drawLowerThird(ctx, kit.lowerThird, width, height, height - captionHeight, amount);
+      drawn = true;
+    }
+
+    const logo = kit.logo;
+    if (logo && logoImage && logoImage.naturalWidth > 0) {
+      const margin = width * MARGIN_RATIO;
+      const logoWidth = width * logo.size;
+      const logoHeight = logoWidth * (logoImage.naturalHeight / logoImage.naturalWidth);
+      const x = logo.corner.endsWith('left') ? margin : width - margin - logoWidth;
+      const y = logo.corner.startsWith('top') ? margin : height - captionHeight - margin - logoHeight;
+      ctx.save();
+      ctx.globalAlpha = logo.opacity;
+      ctx.drawImage(logoImage, x, y, logoWidth, logoHeight);
+      ctx.restore();
+      drawn = true;
+    }
+    return drawn;
+  };
+
+  return { setKit, setLowerThirdVisible, draw };
+}
@@ -0,0 +1,314 @@
+import { CameraEffectSettings, CameraSettings, CameraShape } from '../types';
+import { CameraEffect, Segmenter, createCameraEffect } from './camera-effects';
+import { createChromaKeyProcessor } from './chroma-key';
+
+export interface BubbleRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Draws the camera the same way everywhere it appears: the compositor uses it
+ * for the recording and `CameraOverlay` for the live preview, so styling,
+ * effects and keying can't drift apart between the two.
+ */
+export interface CameraRenderer {
+  /** Draws the styled bubble (or the keyed presenter, frameless) inside `box` */
+  drawBubble: (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, box: BubbleRect, settings: CameraSettings) => void;
+  /** Draws the camera covering the whole canvas, for camera-only recordings */
+  drawFullFrame: (
+    ctx: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    width: number,
+    height: number,
+    settings: CameraSettings
+  ) => void;
+  dispose: () => void;
+}
+
+/** Border widths, corner radii and shadows are specified at this bubble width and scale with it */
+const REFERENCE_BUBBLE_WIDTH = 240;
+const DEFAULT_BORDER_COLOR = 'rgba(255, 255, 255, 0.3)';
+const DEFAULT_BORDER_WIDTH = 2;
+const RECTANGLE_CORNER_RADIUS = 8;
+const ROUNDED_SQUARE_CORNER_RATIO = 0.22;
+const SHADOW_BLUR = 16;
+const SHADOW_OFFSET_Y = 4;
+const SQUIRCLE_SEGMENTS = 64;
+
+export const MIN_CAMERA_ZOOM = 1;
+export const MAX_CAMERA_ZOOM = 3;
+
+/** How far a bubble's shadow can reach past its box, in the box's pixels */
+export function getBubbleOverflow(boxWidth: number): number {
+  return Math.ceil(((SHADOW_BLUR + SHADOW_OFFSET_Y) * boxWidth) / REFERENCE_BUBBLE_WIDTH);
+}
+
+/**
+ * Whether the bubble is styled beyond its shape and mirroring: a custom
+ * border, a shadow, or a zoomed or moved crop of the camera.
+ */
+export function hasCustomBubbleStyle(settings: CameraSettings): boolean {
+  const offset = settings.cropOffset;
+  return (
+    !!settings.shadow ||
+    (settings.zoom ?? 1) > MIN_CAMERA_ZOOM ||
+    (!!offset && (offset.x !== 0 || offset.y !== 0)) ||
+    (settings.borderWidth ?? DEFAULT_BORDER_WIDTH) !== DEFAULT_BORDER_WIDTH ||
+    (settings.borderColor ?? DEFAULT_BORDER_COLOR) !== DEFAULT_BORDER_COLOR
+  );
+}
+
+/** Shapes other than the rectangle are square, centered in the box */
+function getShapeRect(shape: CameraShape, box: BubbleRect): BubbleRect {
+  if (shape === 'rectangle') return box;
+  const side = Math.min(box.width, box.height);
+  return {
+    x: box.x + (box.width - side) / 2,
+    y: box.y + (box.height - side) / 2,
+    width: side,
+    height: side,
+  };
+}
+
+function traceShape(ctx: CanvasRenderingContext2D, shape: CameraShape, rect: BubbleRect, scale: number): void {
+  ctx.beginPath();
+  switch (shape) {
+    case 'circle':
+      ctx.arc(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, 0, Math.PI * 2);
+      break;
+    case 'rounded-square':
+      ctx.roundRect(rect.x, rect.y, rect.width, rect.height, rect.width * ROUNDED_SQUARE_CORNER_RATIO);
+      break;
+    case 'squircle': {
+      // Superellipse |x|^4 + |y|^4 = 1
+      const centerX = rect.x + rect.width / 2;
+      const centerY = rect.y + rect.height / 2;
+      for (let i = 0; i <= SQUIRCLE_SEGMENTS; i++) {
+        const angle = (i / SQUIRCLE_SEGMENTS) * Math.PI * 2;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const x = centerX + (rect.width / 2) * Math.sign(cos) * Math.sqrt(Math.abs(cos));
+        const y = centerY + (rect.height / 2) * Math.sign(sin) * Math.sqrt(Math.abs(sin));
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      break;
+    }
+    default:
+      ctx.roundRect(rect.x, rect.y, rect.width, rect.height, RECTANGLE_CORNER_RADIUS * scale);
+  }
+  ctx.closePath();
+}
+
+/** Part of the frame to show: cover-fit to the target, narrowed by zoom and moved by the crop offset */
+function getCropRect(
+  frameWidth: number,
+  frameHeight: number,
+  target: BubbleRect,
+  settings: CameraSettings
+): BubbleRect {
+  const zoom = Math.min(MAX_CAMERA_ZOOM, Math.max(MIN_CAMERA_ZOOM, settings.zoom ?? 1));
+  const targetAspect = target.width / target.height;
+
+  let width = frameWidth;
+  let height = frameHeight;
+  if (frameWidth / frameHeight > targetAspect) {
+    width = frameHeight * targetAspect;
+  } else {
+    height = frameWidth / targetAspect;
+  }
+  width /= zoom;
+  height /= zoom;
+
+  // Offsets are as seen in the bubble, so they flip with the mirror
+  const offset = settings.cropOffset ?? { x: 0, y: 0 };
+  const offsetX = settings.mirror === false ? offset.x : -offset.x;
+
+  return {
+    x: ((frameWidth - width) / 2) * (1 + offsetX),
+    y: ((frameHeight - height) / 2) * (1 + offset.y),
+    width,
+    height,
+  };
+}
+
+function drawCropped(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  crop: BubbleRect,
+  target: BubbleRect,
+  mirror: boolean
+): void {
+  if (mirror) {
+    ctx.translate(target.x + target.width, target.y);
+    ctx.scale(-1, 1);
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, target.width, target.height);
+  } else {
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, target.x, target.y, target.width, target.height);
+  }
+}
+
+function applyShadow(ctx: CanvasRenderingContext2D, scale: number): void {
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = SHADOW_BLUR * scale;
+  ctx.shadowOffsetY = SHADOW_OFFSET_Y * scale;
+}
+
+/**
+ * Draws a plain video clipped to a shape, for sources other than the main
+ * camera. `contain` letterboxes (screens lose nothing), `cover` fills the shape.
+ */
+export function drawShapedFrame(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  box: BubbleRect,
+  shape: CameraShape,
+  fit: 'contain' | 'cover'
+): void {
+  const frameWidth = video.videoWidth;
+  const frameHeight = video.videoHeight;
+  if (!frameWidth || !frameHeight) return;
+
+  const rect = getShapeRect(shape, box);
+  // Large panels keep the small-bubble corner radius and border
+  const scale = Math.min(1, box.width / REFERENCE_BUBBLE_WIDTH);
+  const frameAspect = frameWidth / frameHeight;
+
+  ctx.save();
+  traceShape(ctx, shape, rect, scale);
+  ctx.fillStyle = '#000';
+  ctx.fill();
+  ctx.clip();
+  if (fit === 'cover') {
+    const targetAspect = rect.width / rect.height;
+    const width = Math.min(frameWidth, frameHeight * targetAspect);
+    const height = width / targetAspect;
+    ctx.drawImage(video, (frameWidth - width) / 2, (frameHeight - height) / 2, width, height, rect.x, rect.y, rect.width, rect.height);
+  } else {
+    const width = Math.min(rect.width, rect.height * frameAspect);
+    const height = width / frameAspect;
+    ctx.drawImage(video, rect.x + (rect.width - width) / 2, rect.y + (rect.height - height) / 2, width, height);
+  }
+  ctx.restore();
+
+  ctx.save();
+  traceShape(ctx, shape, rect, scale);
+  ctx.strokeStyle = DEFAULT_BORDER_COLOR;
+  ctx.lineWidth = DEFAULT_BORDER_WIDTH * scale;
+  ctx.stroke();
+  ctx.restore();
+}
+
+export function createCameraRenderer(segmenter: Segmenter): CameraRenderer {
+  const keyer = createChromaKeyProcessor();
+  let effect: CameraEffect | null = null;
+  let effectSettings: CameraEffectSettings | undefined;
+
+  const getEffect = (settings: CameraEffectSettings | undefined) => {
+    if (settings !== effectSettings) {
+      effect?.dispose();
+      effectSettings = settings;
+      effect = settings ? createCameraEffect(settings, segmenter) : null;
+    }
+    return effect;
+  };
+
+  /**
+   * Runs effects and keying on the camera frame, at no more resolution than
+   * the target will show, and returns the processed frame with its size.
+   */
+  const prepareFrame = (video: HTMLVideoElement, target: BubbleRect, settings: CameraSettings, allowKey: boolean) => {
+    const videoWidth = video.videoWidth;
+    const videoHeight = video.videoHeight;
+    if (!videoWidth || !videoHeight) return null;
+
+    const activeEffect = getEffect(settings.effect);
+    const chromaKey = allowKey && settings.chromaKey?.enabled ? settings.chromaKey : null;
+    if (!activeEffect && !chromaKey) {
+      return { source: video as CanvasImageSource, width: videoWidth, height: videoHeight };
+    }
+
+    const zoom = Math.min(MAX_CAMERA_ZOOM, Math.max(MIN_CAMERA_ZOOM, settings.zoom ?? 1));
+    const scale = Math.min(1, Math.max(target.width / videoWidth, target.height / videoHeight) * zoom);
+    const width = Math.max(1, Math.round(videoWidth * scale));
+    const height = Math.max(1, Math.round(videoHeight * scale));
+
+    let source: CanvasImageSource = video;
+    if (activeEffect) source = activeEffect.render(source, width, height);
+    if (chromaKey) source = keyer.process(source, width, height, chromaKey);
+    return { source, width, height };
+  };
+
+  const drawBubble = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, box: BubbleRect, settings: CameraSettings) => {
+    const isKeyed = !!settings.chromaKey?.enabled;
+    const rect = isKeyed ? box : getShapeRect(settings.shape, box);
+    const scale = box.width / REFERENCE_BUBBLE_WIDTH;
+    const mirror = settings.mirror !== false;
+
+    const frame = prepareFrame(video, rect, settings, true);
+    if (!frame) return;
+    const crop = getCropRect(frame.width, frame.height, rect, settings);
+
+    ctx.save();
+
+    if (isKeyed) {
+      // Keyed presenter sits directly on the screen; the shadow follows their outline
+      if (settings.shadow) applyShadow(ctx, scale);
+      drawCropped(ctx, frame.source, crop, rect, mirror);
+      ctx.restore();
+      return;
+    }
+
+    if (settings.shadow) {
+      ctx.save();
+      applyShadow(ctx, scale);
+      traceShape(ctx, settings.shape, rect, scale);
+      ctx.fillStyle = '#000';
+      ctx.fill();
+      ctx.restore();
+    }
+
+    traceShape(ctx, settings.shape, rect, scale);
+    ctx.clip();
+    drawCropped(ctx, frame.source, crop, rect, mirror);
+    ctx.restore();
+
+    const borderWidth = settings.borderWidth ?? DEFAULT_BORDER_WIDTH;
+    if (borderWidth > 0) {
+      ctx.save();
+      traceShape(ctx, settings.shape, rect, scale);
+      ctx.strokeStyle = settings.borderColor ?? DEFAULT_BORDER_COLOR;
+      ctx.lineWidth = borderWidth * scale;
+      ctx.stroke();
+      ctx.restore();
+    }
+  };
+
+  const drawFullFrame = (
+    ctx: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    width: number,
+    height: number,
+    settings: CameraSettings
+  ) => {
+    const target = { x: 0, y: 0, width, height };
+    // Nothing behind a full-frame camera to key onto, so keying is skipped
+    const frame = prepareFrame(video, target, settings, false);
+    if (!frame) return;
+
+    ctx.save();
+    drawCropped(ctx, frame.source, getCropRect(frame.width, frame.height, target, settings), target, settings.mirror !== false);
+    ctx.restore();
+  };
+
+  const dispose = () => {
+    effect?.dispose();
+    effect = null;
+    effectSettings = undefined;
+  };
+
+  return { drawBubble, drawFullFrame, dispose };
+}
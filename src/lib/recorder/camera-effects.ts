@@ -0,0 +1,123 @@
+import { CameraEffectSettings } from '../types';
+import { createSelfieSegmenter } from './selfie-segmenter';
+
+/**
+ * Per-frame camera processing run before the bubble is drawn. `render` draws
+ * `source` at the given size with the effect applied and returns the result.
+ */
+export interface CameraEffect {
+  render: (source: CanvasImageSource, width: number, height: number) => CanvasImageSource;
+  dispose: () => void;
+}
+
+/**
+ * Separates the presenter from the room. `segment` returns an image whose
+ * alpha is 1 over the person and 0 over the background, at the given size.
+ * Model-backed segmenters must load their model from the app's own assets,
+ * never from a CDN.
+ */
+export interface Segmenter {
+  segment: (source: CanvasImageSource, width: number, height: number) => CanvasImageSource;
+  dispose: () => void;
+}
+
+function createCanvas(): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  return [canvas, canvas.getContext('2d')!];
+}
+
+function resize(canvas: HTMLCanvasElement, width: number, height: number): void {
+  const targetWidth = Math.max(1, Math.round(width));
+  const targetHeight = Math.max(1, Math.round(height));
+  if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+    canvas.width = targetWidth;
+    canvas.height = targetHeight;
+  }
+}
+
+/** The segmenter used for recordings and their preview */
+export function createSegmenter(): Segmenter {
+  return createSelfieSegmenter();
+}
+
+function loadImage(url: string): HTMLImageElement {
+  const image = new Image();
+  image.decoding = 'async';
+  image.src = url;
+  image.onerror = () => console.warn('Camera background image failed to load:', url);
+  return image;
+}
+
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  width: number,
+  height: number
+): void {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+/**
+ * Builds the effect for the given settings, or null when no effect is chosen.
+ * The background layer is drawn first, then the presenter cut out through the
+ * segmenter's mask on top.
+ */
+export function createCameraEffect(settings: CameraEffectSettings, segmenter: Segmenter): CameraEffect | null {
+  if (settings.kind === 'none') return null;
+  if (settings.kind === 'replace' && !settings.backgroundImageUrl) return null;
+
+  const [output, outputCtx] = createCanvas();
+  const [person, personCtx] = createCanvas();
+  const backgroundImage = settings.kind === 'replace' && settings.backgroundImageUrl
+    ? loadImage(settings.backgroundImageUrl)
+    : null;
+
+  const render = (source: CanvasImageSource, width: number, height: number) => {
+    resize(output, width, height);
+    resize(person, width, height);
+    const w = output.width;
+    const h = output.height;
+
+    // Background layer
+    outputCtx.save();
+    if (backgroundImage) {
+      if (!backgroundImage.complete || backgroundImage.naturalWidth === 0) {
+        // Image still loading: show the camera unchanged rather than a blank frame
+        outputCtx.drawImage(source, 0, 0, w, h);
+        outputCtx.restore();
+        return output;
+      }
+      drawCover(outputCtx, backgroundImage, w, h);
+    } else {
+      outputCtx.filter = `blur(${settings.blurRadius}px)`;
+      // Overdraw so the blur doesn't pull transparent edges in
+      const bleed = settings.blurRadius * 2;
+      outputCtx.drawImage(source, -bleed, -bleed, w + bleed * 2, h + bleed * 2);
+    }
+    outputCtx.restore();
+
+    // Presenter layer
+    personCtx.globalCompositeOperation = 'copy';
+    personCtx.drawImage(source, 0, 0, w, h);
+    personCtx.globalCompositeOperation = 'destination-in';
+    personCtx.drawImage(segmenter.segment(source, w, h), 0, 0, w, h);
+    personCtx.globalCompositeOperation = 'source-over';
+
+    outputCtx.drawImage(person, 0, 0);
+    return output;
+  };
+
+  const dispose = () => {
+    resize(output, 1, 1);
+    resize(person, 1, 1);
+    if (backgroundImage) {
+      backgroundImage.onerror = null;
+      backgroundImage.src = '';
+    }
+  };
+
+  return { render, dispose };
+}
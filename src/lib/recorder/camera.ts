@@ -10,13 +10,16 @@ export interface CameraErrorResult {
   message: string;
 }
 
-export async function getCameraStream(deviceId?: string): Promise<CameraStreamResult | CameraErrorResult> {
+export async function getCameraStream(
+  deviceId?: string,
+  idealSize: { width: number; height: number } = { width: 640, height: 480 }
+): Promise<CameraStreamResult | CameraErrorResult> {
   try {
     const constraints: MediaStreamConstraints = {
       video: {
         facingMode: 'user',
-        width: { ideal: 640 },
-        height: { ideal: 480 },
+        width: { ideal: idealSize.width },
+        height: { ideal: idealSize.height },
         frameRate: { ideal: 30 },
         ...(deviceId && { deviceId: { exact: deviceId } }),
       },
@@ -0,0 +1,85 @@
+import { ChromaKey } from '../types';
+
+export interface ChromaKeyProcessor {
+  /** Keys one frame of `source` at the given size and returns the canvas holding the result */
+  process: (source: CanvasImageSource, width: number, height: number, key: ChromaKey) => HTMLCanvasElement;
+}
+
+/** Width of the soft edge between removed and kept pixels, in chromaticity distance */
+const EDGE_SOFTNESS = 0.1;
+/** Chromaticity distance a tolerance of 1 maps to */
+const MAX_TOLERANCE_DISTANCE = 0.6;
+/** Pixels darker than this (sum of channels) have unreliable color and are always kept */
+const MIN_KEYABLE_BRIGHTNESS = 40;
+
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (Number.isNaN(value)) return [0, 255, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Removes the backdrop from camera frames. Pixels are compared by
+ * chromaticity (each channel's share of the total) rather than raw RGB, so
+ * shadows and uneven lighting on the backdrop still key out.
+ */
+export function createChromaKeyProcessor(): ChromaKeyProcessor {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const process = (source: CanvasImageSource, width: number, height: number, key: ChromaKey) => {
+    const targetWidth = Math.max(1, Math.round(width));
+    const targetHeight = Math.max(1, Math.round(height));
+    if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+      canvas.width = targetWidth;
+      canvas.height = targetHeight;
+    }
+
+    ctx.drawImage(source, 0, 0, targetWidth, targetHeight);
+    const frame = ctx.getImageData(0, 0, targetWidth, targetHeight);
+    const pixels = frame.data;
+
+    const keyColor = parseHexColor(key.color);
+    const keySum = keyColor[0] + keyColor[1] + keyColor[2] || 1;
+    const keyR = keyColor[0] / keySum;
+    const keyG = keyColor[1] / keySum;
+    const keyB = keyColor[2] / keySum;
+    // Spill lives in whichever channel dominates the backdrop
+    const spillChannel = keyColor.indexOf(Math.max(...keyColor));
+    const threshold = key.tolerance * MAX_TOLERANCE_DISTANCE;
+
+    for (let i = 0; i < pixels.length; i += 4) {
+      const r = pixels[i];
+      const g = pixels[i + 1];
+      const b = pixels[i + 2];
+      const sum = r + g + b;
+      if (sum < MIN_KEYABLE_BRIGHTNESS) continue;
+
+      const distance = Math.hypot(r / sum - keyR, g / sum - keyG, b / sum - keyB);
+      if (distance <= threshold) {
+        pixels[i + 3] = 0;
+        continue;
+      }
+
+      if (distance < threshold + EDGE_SOFTNESS) {
+        pixels[i + 3] = Math.round(255 * (distance - threshold) / EDGE_SOFTNESS);
+      }
+
+      if (key.spillSuppression > 0) {
+        const spill = pixels[i + spillChannel];
+        const limit = Math.max(
+          pixels[i + ((spillChannel + 1) % 3)],
+          pixels[i + ((spillChannel + 2) % 3)]
+        );
+        if (spill > limit) {
+          pixels[i + spillChannel] = spill - (spill - limit) * key.spillSuppression;
+        }
+      }
+    }
+
+    ctx.putImageData(frame, 0, 0);
+    return canvas;
+  };
+
+  return { process };
+}
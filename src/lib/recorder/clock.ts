@@ -0,0 +1,33 @@
+/**
+ * Tracks how long a recording has actually been capturing, excluding time
+ * spent paused. Uses the monotonic `performance.now()` clock.
+ */
+export interface RecordingClock {
+  pause: () => void;
+  resume: () => void;
+  /** Active recording time in seconds */
+  elapsed: () => number;
+}
+
+export function createRecordingClock(): RecordingClock {
+  let accumulated = 0;
+  let resumedAt: number | null = performance.now();
+
+  const pause = () => {
+    if (resumedAt === null) return;
+    accumulated += performance.now() - resumedAt;
+    resumedAt = null;
+  };
+
+  const resume = () => {
+    if (resumedAt !== null) return;
+    resumedAt = performance.now();
+  };
+
+  const elapsed = () => {
+    const running = resumedAt === null ? 0 : performance.now() - resumedAt;
+    return (accumulated + running) / 1000;
+  };
+
+  return { pause, resume, elapsed };
+}
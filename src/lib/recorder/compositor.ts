@@ -1,15 +1,67 @@
-import { CameraSettings, CameraSize } from '../types';
+import { CameraSettings, CompositeOnlyFeature, SceneLayout, CAMERA_SIZE_RATIO } from '../types';
+import { AnnotationLayer } from './annotations';
+import { BrandingLayer } from './branding';
+import { Segmenter, createSegmenter } from './camera-effects';
+import { BubbleRect, createCameraRenderer, drawShapedFrame, hasCustomBubbleStyle } from './camera-bubble';
+import { SceneGeometry, createSceneAnimator, getSceneGeometry } from './scenes';
+import { MAIN_CAMERA_SOURCE_ID, MAIN_SCREEN_SOURCE_ID, VideoSource, withMainSources } from './sources';
+import { FramePacing, captureCanvasStream, createFrameScheduler } from './frame-scheduler';
+import { ViewportRect, FULL_VIEWPORT, createViewportAnimator, fitViewportToOutput, sourceRectToCanvas } from './viewport';
 
 export interface CompositorConfig {
-  screenStream: MediaStream;
+  screenStream?: MediaStream | null;
   cameraStream?: MediaStream | null;
   cameraSettings?: CameraSettings;
+  /**
+   * Camera-only: the exact canvas size. With a screen: the box the screen is
+   * downscaled to fit into (never upscaled). Omit to keep the screen's native size.
+   */
+  outputSize?: { width: number; height: number };
+  /** Part of the screen (normalized) to record; the canvas is sized from it */
+  cropRegion?: ViewportRect | null;
+  frameRate?: number;
+  /** Presenter drawings, composited on top of everything else */
+  annotations?: AnnotationLayer;
+  /** Logo, lower third and caption bar, drawn over the sources and under the drawings */
+  branding?: BrandingLayer;
+  /** Person segmentation for camera background effects; defaults to the bundled model, if any */
+  segmenter?: Segmenter;
+  /** Starting scene when both screen and camera are present */
+  scene?: SceneLayout;
+  /**
+   * Everything to draw, in order (last on top). The main screen and camera
+   * take part through their entries; missing ones go at the bottom. The main
+   * screen entry's layout is the part of the canvas its scene uses; the camera
+   * bubble is still placed on the whole canvas.
+   */
+  sources?: VideoSource[];
+}
+
+export interface RecorderBitrates {
+  videoBitsPerSecond?: number;
+  audioBitsPerSecond?: number;
 }
 
 export interface CompositorResult {
   canvas: HTMLCanvasElement;
   canvasStream: MediaStream;
   updateCameraSettings: (settings: Partial<CameraSettings>) => void;
+  /** Swaps the camera source in place without interrupting the canvas stream */
+  replaceCameraStream: (stream: MediaStream | null) => Promise<void>;
+  /** Animates to a region of the screen (normalized), or back to the full frame with null */
+  setZoomRegion: (region: ViewportRect | null) => void;
+  /** Dims everything outside a screen region (normalized), or removes the dimming with null */
+  setSpotlight: (region: ViewportRect | null) => void;
+  /** The viewport currently shown, mid-animation included */
+  getViewport: () => ViewportRect;
+  /** Animates to another screen/camera layout; the canvas stream is unaffected */
+  setScene: (layout: SceneLayout) => void;
+  /** Replaces the source list; its order is the z-order, main screen and camera included */
+  setSources: (sources: VideoSource[]) => void;
+  /** How evenly frames are actually being produced */
+  getFramePacing: () => FramePacing;
+  /** Everything drawn so far that the raw screen and camera tracks don't contain */
+  getCompositeOnlyFeatures: () => CompositeOnlyFeature[];
   cleanup: () => void;
 }
 
@@ -47,19 +99,70 @@ function getCameraDimensions(settings: CameraSettings, canvasWidth: number): { w
     return settings.customSize;
   }
   
-  const sizeMultiplier: Record<CameraSize, number> = {
-    small: 0.15,
-    medium: 0.2,
-    large: 0.25,
-  };
-  
-  const multiplier = sizeMultiplier[settings.size];
+  const multiplier = CAMERA_SIZE_RATIO[settings.size];
   const width = canvasWidth * multiplier;
   const height = width * 0.75;
   
   return { width, height };
 }
 
+/** Where the camera bubble sits on a canvas of the given size, in canvas pixels */
+export function getCameraBubbleRect(settings: CameraSettings, canvasWidth: number, canvasHeight: number): BubbleRect {
+  const dims = getCameraDimensions(settings, canvasWidth);
+  return {
+    ...getCameraDrawPosition(settings, canvasWidth, canvasHeight, dims.width, dims.height),
+    ...dims,
+  };
+}
+
+/** Opacity of the dimming outside the spotlight */
+const SPOTLIGHT_DIM_OPACITY = 0.65;
+/** Per-frame step of the spotlight fade */
+const SPOTLIGHT_FADE_STEP = 0.08;
+
+/** Dims `area` (where the screen is drawn) outside `focus`, which is normalized to that area */
+function drawSpotlight(
+  ctx: CanvasRenderingContext2D,
+  focus: ViewportRect,
+  area: BubbleRect,
+  opacity: number
+): void {
+  ctx.save();
+  ctx.fillStyle = `rgba(0, 0, 0, ${SPOTLIGHT_DIM_OPACITY * opacity})`;
+  ctx.beginPath();
+  ctx.rect(area.x, area.y, area.width, area.height);
+  ctx.roundRect(
+    area.x + focus.x * area.width,
+    area.y + focus.y * area.height,
+    focus.width * area.width,
+    focus.height * area.height,
+    12
+  );
+  ctx.fill('evenodd');
+  ctx.restore();
+}
+
+/** Largest rect with the given aspect ratio centered inside `slot` */
+function fitRect(slot: BubbleRect, aspectRatio: number): BubbleRect {
+  const width = Math.min(slot.width, slot.height * aspectRatio);
+  const height = width / aspectRatio;
+  return {
+    x: slot.x + (slot.width - width) / 2,
+    y: slot.y + (slot.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function offsetGeometry(geometry: SceneGeometry, dx: number, dy: number): SceneGeometry {
+  if (dx === 0 && dy === 0) return geometry;
+  return {
+    ...geometry,
+    screen: { ...geometry.screen, x: geometry.screen.x + dx, y: geometry.screen.y + dy },
+    camera: { ...geometry.camera, x: geometry.camera.x + dx, y: geometry.camera.y + dy },
+  };
+}
+
 function waitForVideoReady(video: HTMLVideoElement): Promise<void> {
   return new Promise((resolve, reject) => {
     if (video.readyState >= 2) {
@@ -93,7 +196,7 @@ function waitForVideoReady(video: HTMLVideoElement): Promise<void> {
   });
 }
 
-function createVideoElement(stream: MediaStream): HTMLVideoElement {
+export function createVideoElement(stream: MediaStream): HTMLVideoElement {
   const video = document.createElement('video');
   video.srcObject = stream;
   video.muted = true;
@@ -113,7 +216,7 @@ function createVideoElement(stream: MediaStream): HTMLVideoElement {
   return video;
 }
 
-function removeVideoElement(video: HTMLVideoElement | null): void {
+export function removeVideoElement(video: HTMLVideoElement | null): void {
   if (video) {
     video.pause();
     video.srcObject = null;
@@ -124,7 +227,13 @@ function removeVideoElement(video: HTMLVideoElement | null): void {
 }
 
 export async function createCompositor(config: CompositorConfig): Promise<CompositorResult> {
-  const { screenStream, cameraStream } = config;
+  const { screenStream, cameraStream, outputSize, frameRate = 30, annotations, branding } = config;
+  const crop = config.cropRegion ?? FULL_VIEWPORT;
+  const segmenter = config.segmenter ?? createSegmenter();
+  
+  if (!screenStream && !cameraStream) {
+    throw new Error('Compositor needs a screen or camera stream');
+  }
   
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d', { 
@@ -132,14 +241,25 @@ export async function createCompositor(config: CompositorConfig): Promise<Compos
     desynchronized: true 
   })!;
   
-  // Get screen dimensions
-  const videoTrack = screenStream.getVideoTracks()[0];
-  const { width, height } = videoTrack.getSettings();
-  canvas.width = width || 1920;
-  canvas.height = height || 1080;
+  // Size canvas from the (cropped) screen, or from the requested output in camera-only mode
+  if (screenStream) {
+    const videoTrack = screenStream.getVideoTracks()[0];
+    const settings = videoTrack.getSettings();
+    const width = (settings.width || 1920) * crop.width;
+    const height = (settings.height || 1080) * crop.height;
+    const scale = outputSize
+      ? Math.min(1, outputSize.width / width, outputSize.height / height)
+      : 1;
+    // Even dimensions keep video encoders happy
+    canvas.width = Math.round((width * scale) / 2) * 2;
+    canvas.height = Math.round((height * scale) / 2) * 2;
+  } else {
+    canvas.width = outputSize?.width || 1280;
+    canvas.height = outputSize?.height || 720;
+  }
   
   // Create and attach video elements to DOM
-  const screenVideo = createVideoElement(screenStream);
+  const screenVideo = screenStream ? createVideoElement(screenStream) : null;
   let cameraVideo: HTMLVideoElement | null = null;
   
   if (cameraStream) {
@@ -147,14 +267,16 @@ export async function createCompositor(config: CompositorConfig): Promise<Compos
   }
   
   // Wait for screen video to be ready
-  try {
-    await waitForVideoReady(screenVideo);
-    await screenVideo.play();
-  } catch (error) {
-    console.error('Screen video failed to start:', error);
-    removeVideoElement(screenVideo);
-    removeVideoElement(cameraVideo);
-    throw new Error('Failed to initialize screen video');
+  if (screenVideo) {
+    try {
+      await waitForVideoReady(screenVideo);
+      await screenVideo.play();
+    } catch (error) {
+      console.error('Screen video failed to start:', error);
+      removeVideoElement(screenVideo);
+      removeVideoElement(cameraVideo);
+      throw new Error('Failed to initialize screen video');
+    }
   }
   
   // Wait for camera video to be ready (if enabled)
@@ -163,10 +285,14 @@ export async function createCompositor(config: CompositorConfig): Promise<Compos
       await waitForVideoReady(cameraVideo);
       await cameraVideo.play();
     } catch (error) {
-      console.warn('Camera video failed to start:', error);
-      // Camera is optional, continue without it
       removeVideoElement(cameraVideo);
       cameraVideo = null;
+      // Camera is optional when compositing over the screen, required otherwise
+      if (!screenVideo) {
+        console.error('Camera video failed to start:', error);
+        throw new Error('Failed to initialize camera video');
+      }
+      console.warn('Camera video failed to start:', error);
     }
   }
   
@@ -176,79 +302,186 @@ export async function createCompositor(config: CompositorConfig): Promise<Compos
     shape: 'rectangle',
   };
   
-  let animationFrameId: number;
+  const scheduler = createFrameScheduler(frameRate);
   let isRunning = true;
   
+  const cameraRenderer = createCameraRenderer(segmenter);
+  const viewport = createViewportAnimator();
+  const scenes = createSceneAnimator(config.scene ?? 'screen-bubble');
+  let spotlightRegion: ViewportRect | null = null;
+  let spotlightOpacity = 0;
+  // Kept after the spotlight is switched off so it can fade out in place
+  let lastSpotlightRegion: ViewportRect | null = null;
+  let sources: VideoSource[] = [];
+  const sourceVideos = new Map<string, HTMLVideoElement>();
+  const compositeOnly = new Set<CompositeOnlyFeature>();
+  const initialMirror = currentSettings.mirror !== false;
+  
+  const setSources = (next: VideoSource[]) => {
+    // The camera entry stays even without a camera, so one swapped in later has its place
+    sources = withMainSources(next, !!screenVideo, true);
+    next.forEach(source => {
+      if (!source.stream) return;
+      const existing = sourceVideos.get(source.id);
+      if (existing) {
+        if (existing.srcObject !== source.stream) existing.srcObject = source.stream;
+        return;
+      }
+      // Not awaited: a source simply appears once its first frame is ready
+      const video = createVideoElement(source.stream);
+      sourceVideos.set(source.id, video);
+      video.play().catch((e) => {
+        if (e.name !== 'AbortError') console.warn(`Source "${source.label}" failed to start:`, e);
+      });
+    });
+    sourceVideos.forEach((video, id) => {
+      if (next.some(source => source.id === id)) return;
+      removeVideoElement(video);
+      sourceVideos.delete(id);
+    });
+  };
+  setSources(config.sources ?? []);
+  
   const drawFrame = () => {
     if (!isRunning) return;
     
-    // Check if screen video is still playing and has data
-    if (screenVideo.readyState >= 2 && !screenVideo.paused) {
-      ctx.drawImage(screenVideo, 0, 0, canvas.width, canvas.height);
+    const currentViewport = viewport.current();
+    const isCameraLive = !!cameraVideo && cameraVideo.readyState >= 2 && !cameraVideo.paused;
+    if (currentViewport.width < 1 || currentViewport.height < 1) compositeOnly.add('zoom');
+    
+    let drawScreen: (() => void) | null = null;
+    let drawCamera: (() => void) | null = null;
+    // True when the scene insets the screen over the camera (camera-inset)
+    let isScreenInset = false;
+    
+    // Camera-only: the camera fills the whole frame
+    if (!screenVideo) {
+      drawCamera = () => {
+        if (!cameraVideo || !isCameraLive) return;
+        cameraRenderer.drawFullFrame(ctx, cameraVideo, canvas.width, canvas.height, currentSettings);
+      };
     }
     
-    // Draw camera overlay if available and playing
-    if (cameraVideo && cameraVideo.readyState >= 2 && !cameraVideo.paused) {
-      const cameraDims = getCameraDimensions(currentSettings, canvas.width);
-      const cameraPos = getCameraDrawPosition(
-        currentSettings,
-        canvas.width,
-        canvas.height,
-        cameraDims.width,
-        cameraDims.height
+    if (screenVideo) {
+      // The main screen's scene plays out within its place in the source list
+      const primaryArea = sources.find(source => source.id === MAIN_SCREEN_SOURCE_ID)?.layout ?? FULL_VIEWPORT;
+      const bubble = getCameraBubbleRect(currentSettings, canvas.width, canvas.height);
+      const areaX = primaryArea.x * canvas.width;
+      const areaY = primaryArea.y * canvas.height;
+      const areaBubble = { ...bubble, x: bubble.x - areaX, y: bubble.y - areaY };
+      // Without a camera every scene falls back to the screen alone
+      const geometry = offsetGeometry(
+        scenes.current(layout => getSceneGeometry(
+          cameraVideo ? layout : 'screen-only',
+          primaryArea.width * canvas.width,
+          primaryArea.height * canvas.height,
+          areaBubble
+        )),
+        areaX,
+        areaY
       );
+      // The cropped part of the screen is the source everything else is relative to
+      const sourceWidth = screenVideo.videoWidth ? screenVideo.videoWidth * crop.width : canvas.width;
+      const sourceHeight = screenVideo.videoHeight ? screenVideo.videoHeight * crop.height : canvas.height;
+      const sourceX = crop.x * (screenVideo.videoWidth || 0);
+      const sourceY = crop.y * (screenVideo.videoHeight || 0);
+      const screenRect = fitRect(geometry.screen, sourceWidth / sourceHeight);
       
-      ctx.save();
-      
-      if (currentSettings.shape === 'circle') {
-        const radius = Math.min(cameraDims.width, cameraDims.height) / 2;
-        const centerX = cameraPos.x + cameraDims.width / 2;
-        const centerY = cameraPos.y + cameraDims.height / 2;
-        
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-        ctx.closePath();
-        ctx.clip();
-        
-        ctx.translate(cameraPos.x + cameraDims.width, cameraPos.y);
-        ctx.scale(-1, 1);
-        ctx.drawImage(cameraVideo, 0, 0, cameraDims.width, cameraDims.height);
-        
-        ctx.restore();
+      drawScreen = () => {
+        // Check if screen video is still playing and has data
+        if (screenVideo.readyState < 2 || screenVideo.paused) return;
         ctx.save();
-        
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-        ctx.lineWidth = 2;
-        ctx.stroke();
-      } else {
-        const borderRadius = 8;
-        
-        ctx.beginPath();
-        ctx.roundRect(cameraPos.x, cameraPos.y, cameraDims.width, cameraDims.height, borderRadius);
-        ctx.closePath();
-        ctx.clip();
-        
-        ctx.translate(cameraPos.x + cameraDims.width, cameraPos.y);
-        ctx.scale(-1, 1);
-        ctx.drawImage(cameraVideo, 0, 0, cameraDims.width, cameraDims.height);
-        
+        ctx.globalAlpha = geometry.screenOpacity;
+        ctx.drawImage(
+          screenVideo,
+          sourceX + currentViewport.x * sourceWidth,
+          sourceY + currentViewport.y * sourceHeight,
+          currentViewport.width * sourceWidth,
+          currentViewport.height * sourceHeight,
+          screenRect.x,
+          screenRect.y,
+          screenRect.width,
+          screenRect.height
+        );
         ctx.restore();
-        ctx.save();
         
-        ctx.beginPath();
-        ctx.roundRect(cameraPos.x, cameraPos.y, cameraDims.width, cameraDims.height, borderRadius);
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-        ctx.lineWidth = 2;
-        ctx.stroke();
+        // Spotlight fades in and out, and follows the focus through zoom changes
+        if (spotlightOpacity > 0 && lastSpotlightRegion) {
+          drawSpotlight(
+            ctx,
+            sourceRectToCanvas(lastSpotlightRegion, currentViewport),
+            screenRect,
+            spotlightOpacity
+          );
+        }
+      };
+      
+      drawCamera = () => {
+        if (!cameraVideo || !isCameraLive || geometry.cameraOpacity <= 0) return;
+        // Panels (split, full frame) drop the bubble styling
+        const settings: CameraSettings = geometry.cameraPanel >= 0.5
+          ? { ...currentSettings, shape: 'rectangle', borderWidth: 0, shadow: false, chromaKey: undefined }
+          : currentSettings;
+        ctx.save();
+        ctx.globalAlpha = geometry.cameraOpacity;
+        cameraRenderer.drawBubble(ctx, cameraVideo, geometry.camera, settings);
+        ctx.restore();
+
+        if (geometry.cameraPanel > 0) compositeOnly.add('scenes');
+        if (settings.chromaKey?.enabled) compositeOnly.add('chroma-key');
+        if (settings.effect && settings.effect.kind !== 'none') compositeOnly.add('camera-effects');
+        if (hasCustomBubbleStyle(settings) || (settings.mirror !== false) !== initialMirror) {
+          compositeOnly.add('camera-style');
+        }
+      };
+      
+      spotlightOpacity = spotlightRegion
+        ? Math.min(1, spotlightOpacity + SPOTLIGHT_FADE_STEP)
+        : Math.max(0, spotlightOpacity - SPOTLIGHT_FADE_STEP);
+      if (spotlightOpacity > 0) compositeOnly.add('spotlight');
+      
+      // Anything not covered by the screen or camera stays black
+      const coversCanvas = screenRect.width >= canvas.width - 1 && screenRect.height >= canvas.height - 1;
+      if (!coversCanvas || geometry.screenOpacity < 1) {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
       }
       
-      ctx.restore();
+      isScreenInset = geometry.camera.width * geometry.camera.height > screenRect.width * screenRect.height;
     }
     
+    // Everything is drawn in list order, except that a screen the scene insets
+    // into the camera is held back until just after it, or it would be hidden
+    const cameraIndex = sources.findIndex(source => source.id === MAIN_CAMERA_SOURCE_ID);
+    const screenIndex = sources.findIndex(source => source.id === MAIN_SCREEN_SOURCE_ID);
+    const holdScreen = isScreenInset && screenIndex < cameraIndex;
+    sources.forEach(source => {
+      if (source.id === MAIN_SCREEN_SOURCE_ID) {
+        if (!holdScreen) drawScreen?.();
+        return;
+      }
+      if (source.id === MAIN_CAMERA_SOURCE_ID) {
+        drawCamera?.();
+        if (holdScreen) drawScreen?.();
+        return;
+      }
+      const video = sourceVideos.get(source.id);
+      if (!video || video.readyState < 2) return;
+      const box = {
+        x: source.layout.x * canvas.width,
+        y: source.layout.y * canvas.height,
+        width: source.layout.width * canvas.width,
+        height: source.layout.height * canvas.height,
+      };
+      drawShapedFrame(ctx, video, box, source.shape, source.kind === 'screen' ? 'contain' : 'cover');
+      compositeOnly.add('extra-sources');
+    });
+    
+    if (branding?.draw(ctx, canvas.width, canvas.height)) compositeOnly.add('branding');
+    if (annotations?.draw(ctx, canvas.width, canvas.height)) compositeOnly.add('annotations');
+    
     // Recover paused videos (ignore AbortError which is expected during cleanup)
-    if (screenVideo.paused && isRunning) {
+    if (screenVideo?.paused && isRunning) {
       screenVideo.play().catch((e) => {
         if (e.name !== 'AbortError') console.warn('Screen video play failed:', e);
       });
@@ -258,31 +491,86 @@ export async function createCompositor(config: CompositorConfig): Promise<Compos
         if (e.name !== 'AbortError') console.warn('Camera video play failed:', e);
       });
     }
+    sourceVideos.forEach(video => {
+      if (!video.paused || !isRunning) return;
+      video.play().catch((e) => {
+        if (e.name !== 'AbortError') console.warn('Source video play failed:', e);
+      });
+    });
     
-    animationFrameId = requestAnimationFrame(drawFrame);
+    // Push the frame to the stream, since a hidden tab may never paint the canvas
+    pushFrame();
   };
   
-  // Start the draw loop
-  drawFrame();
+  const { stream: canvasStream, pushFrame } = captureCanvasStream(canvas, frameRate);
   
-  // Create canvas stream with explicit frame rate
-  const canvasStream = canvas.captureStream(30);
+  // Start the draw loop
+  scheduler.start(drawFrame);
   
   const updateCameraSettings = (settings: Partial<CameraSettings>) => {
     currentSettings = { ...currentSettings, ...settings };
   };
   
+  const replaceCameraStream = async (stream: MediaStream | null) => {
+    if (!stream) {
+      removeVideoElement(cameraVideo);
+      cameraVideo = null;
+      return;
+    }
+    
+    if (cameraVideo) {
+      cameraVideo.srcObject = stream;
+    } else {
+      cameraVideo = createVideoElement(stream);
+    }
+    
+    const video = cameraVideo;
+    try {
+      await waitForVideoReady(video);
+      await video.play();
+    } catch (error) {
+      if ((error as DOMException).name !== 'AbortError') {
+        console.warn('Replacement camera video failed to start:', error);
+      }
+    }
+  };
+  
+  const setZoomRegion = (region: ViewportRect | null) => {
+    viewport.setTarget(region ? fitViewportToOutput(region) : FULL_VIEWPORT);
+  };
+  
+  const setSpotlight = (region: ViewportRect | null) => {
+    spotlightRegion = region;
+    if (region) lastSpotlightRegion = region;
+  };
+  
+  const setScene = (layout: SceneLayout) => {
+    scenes.setLayout(layout);
+  };
+  
   const cleanup = () => {
     isRunning = false;
-    cancelAnimationFrame(animationFrameId);
+    scheduler.stop();
     removeVideoElement(screenVideo);
     removeVideoElement(cameraVideo);
+    sourceVideos.forEach(removeVideoElement);
+    sourceVideos.clear();
+    cameraRenderer.dispose();
+    if (!config.segmenter) segmenter.dispose();
   };
   
   return {
     canvas,
     canvasStream,
     updateCameraSettings,
+    replaceCameraStream,
+    setZoomRegion,
+    setSpotlight,
+    getViewport: viewport.current,
+    setScene,
+    setSources,
+    getFramePacing: scheduler.getPacing,
+    getCompositeOnlyFeatures: () => [...compositeOnly],
     cleanup,
   };
 }
@@ -304,9 +592,9 @@ export function getSupportedMimeType(): string {
   return 'video/webm';
 }
 
-export function createMediaRecorder(stream: MediaStream): MediaRecorder {
+export function createMediaRecorder(stream: MediaStream, bitrates: RecorderBitrates = {}): MediaRecorder {
   const mimeType = getSupportedMimeType();
-  return new MediaRecorder(stream, { mimeType });
+  return new MediaRecorder(stream, { mimeType, ...bitrates });
 }
 
 export function createVideoBlob(chunks: BlobPart[]): Blob {
@@ -0,0 +1,59 @@
+import { loadPreference, savePreference } from '../preferences';
+import { ViewportRect, isFullViewport } from './viewport';
+
+/** Smallest crop (normalized) so a stray click cannot produce a sliver of a frame */
+export const MIN_CROP_SIZE = 0.05;
+
+const CROP_REGIONS_PREFERENCE = 'screen-crop-regions';
+
+interface DisplaySize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Regions are remembered per display resolution, so moving between a laptop
+ * panel and an ultrawide monitor brings back the crop chosen for each.
+ */
+function getDisplayKey({ width, height }: DisplaySize): string {
+  return `${width}x${height}`;
+}
+
+/** Keeps a region inside the frame and at least `MIN_CROP_SIZE` on each side */
+export function clampCropRegion(region: ViewportRect): ViewportRect {
+  const width = Math.min(1, Math.max(MIN_CROP_SIZE, region.width));
+  const height = Math.min(1, Math.max(MIN_CROP_SIZE, region.height));
+  return {
+    x: Math.max(0, Math.min(1 - width, region.x)),
+    y: Math.max(0, Math.min(1 - height, region.y)),
+    width,
+    height,
+  };
+}
+
+export function loadCropRegion(display: DisplaySize): ViewportRect | null {
+  const regions = loadPreference<Record<string, ViewportRect>>(CROP_REGIONS_PREFERENCE, {});
+  const region = regions[getDisplayKey(display)];
+  return region ? clampCropRegion(region) : null;
+}
+
+/** Saves the crop for this display resolution; null or the full frame forgets it */
+export function saveCropRegion(display: DisplaySize, region: ViewportRect | null): void {
+  const regions = loadPreference<Record<string, ViewportRect>>(CROP_REGIONS_PREFERENCE, {});
+  const key = getDisplayKey(display);
+  if (region && !isFullViewport(region)) {
+    regions[key] = region;
+  } else {
+    delete regions[key];
+  }
+  savePreference(CROP_REGIONS_PREFERENCE, regions);
+}
+
+/** Size in source pixels of the cropped part of a display */
+export function getCropSize(display: DisplaySize, region: ViewportRect | null): DisplaySize {
+  if (!region) return display;
+  return {
+    width: Math.round(display.width * region.width),
+    height: Math.round(display.height * region.height),
+  };
+}
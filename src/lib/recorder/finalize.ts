@@ -0,0 +1,105 @@
+import { getFFmpeg, writeFileToFFmpeg, readFileFromFFmpeg, deleteFileFromFFmpeg } from '../editor/ffmpeg';
+
+export interface FinalizedRecording {
+  blob: Blob;
+  duration: number;
+  /** False when the remux failed and the raw, possibly unseekable, recording was kept */
+  seekable: boolean;
+}
+
+const INPUT_FILE = 'recording.webm';
+const OUTPUT_FILE = 'recording-seekable.webm';
+/** How long stopping waits for the video processor to download before keeping the raw recording */
+const PROCESSOR_LOAD_TIMEOUT_MS = 30_000;
+/** How long to wait for a blob's metadata before treating its duration as unknown */
+const METADATA_TIMEOUT_MS = 5_000;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Reads the duration the browser reports for a media blob. Returns null when
+ * the container does not declare one (raw MediaRecorder WebM reports Infinity)
+ * or the metadata does not load within a few seconds.
+ */
+export function getMediaDuration(blob: Blob): Promise<number | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.muted = true;
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+
+    // Some WebM files without cues never fire either event
+    const timer = setTimeout(() => finish(null), METADATA_TIMEOUT_MS);
+    video.onloadedmetadata = () => {
+      finish(Number.isFinite(video.duration) && video.duration > 0 ? video.duration : null);
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+}
+
+/**
+ * Remuxes a MediaRecorder WebM (no re-encode) so it carries a Duration element
+ * and a Cues index, making it seekable. Falls back to the original blob and the
+ * tracked duration if the recording is not WebM, or with `seekable: false` if
+ * the remux fails or the video processor cannot be loaded in time.
+ */
+export async function finalizeRecording(
+  blob: Blob,
+  trackedDuration: number
+): Promise<FinalizedRecording> {
+  if (!blob.type.includes('webm')) {
+    const duration = await getMediaDuration(blob);
+    return { blob, duration: duration ?? trackedDuration, seekable: true };
+  }
+
+  try {
+    const ffmpeg = await withTimeout(getFFmpeg(), PROCESSOR_LOAD_TIMEOUT_MS, 'Video processor took too long to load');
+    await writeFileToFFmpeg(ffmpeg, INPUT_FILE, blob);
+    const exitCode = await ffmpeg.exec(['-i', INPUT_FILE, '-c', 'copy', '-y', OUTPUT_FILE]);
+    if (exitCode !== 0) {
+      await deleteFileFromFFmpeg(ffmpeg, INPUT_FILE);
+      await deleteFileFromFFmpeg(ffmpeg, OUTPUT_FILE);
+      throw new Error(`Remux exited with code ${exitCode}`);
+    }
+    const data = await readFileFromFFmpeg(ffmpeg, OUTPUT_FILE);
+
+    await deleteFileFromFFmpeg(ffmpeg, INPUT_FILE);
+    await deleteFileFromFFmpeg(ffmpeg, OUTPUT_FILE);
+
+    const seekableBlob = new Blob([new Uint8Array(data).buffer as ArrayBuffer], { type: blob.type });
+    const duration = await getMediaDuration(seekableBlob);
+
+    return { blob: seekableBlob, duration: duration ?? trackedDuration, seekable: true };
+  } catch (error) {
+    console.error('Recording finalization failed:', error);
+    return { blob, duration: trackedDuration, seekable: false };
+  }
+}
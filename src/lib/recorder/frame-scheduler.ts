@@ -0,0 +1,223 @@
+/**
+ * How frames are timed. Worker timers keep running at full rate when the
+ * recorder tab is hidden (e.g. while sharing another window);
+ * requestAnimationFrame is suspended there, so it is only the fallback.
+ */
+export type FrameSchedulerKind = 'worker-timer' | 'animation-frame';
+
+/** Measured timing of the frames actually drawn, over the last few seconds */
+export interface FramePacing {
+  scheduler: FrameSchedulerKind;
+  targetFps: number;
+  measuredFps: number;
+  averageIntervalMs: number;
+  /** Standard deviation of the frame interval */
+  jitterMs: number;
+  /** Frames that came at least half an interval late, in the measured window */
+  lateFrames: number;
+}
+
+export interface FrameScheduler {
+  kind: FrameSchedulerKind;
+  start: (onFrame: () => void) => void;
+  stop: () => void;
+  getPacing: () => FramePacing;
+}
+
+/** Number of frame intervals the pacing is measured over */
+const PACING_WINDOW = 150;
+/** An interval this many times the target counts as a late frame */
+const LATE_FRAME_FACTOR = 1.5;
+
+// Dedicated worker timers are not throttled in background tabs like main-thread timers are
+const TIMER_WORKER_SOURCE = `
+let timer = null;
+self.onmessage = (e) => {
+  clearInterval(timer);
+  timer = null;
+  if (e.data.intervalMs) {
+    timer = setInterval(() => self.postMessage(performance.now()), e.data.intervalMs);
+  }
+};
+`;
+
+function createTimerWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  const url = URL.createObjectURL(new Blob([TIMER_WORKER_SOURCE], { type: 'text/javascript' }));
+  try {
+    return new Worker(url);
+  } catch (err) {
+    // Blocked by a content security policy, for example
+    console.warn('Timer worker unavailable, falling back to main-thread timing:', err);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Calls back every `intervalMs` from a worker timer, so the callback keeps its
+ * rate in a hidden tab; falls back to a main-thread interval. Returns a stop function.
+ */
+export function startWorkerInterval(intervalMs: number, callback: () => void): () => void {
+  const worker = createTimerWorker();
+  if (!worker) {
+    const interval = setInterval(callback, intervalMs);
+    return () => clearInterval(interval);
+  }
+  worker.onmessage = () => callback();
+  worker.postMessage({ intervalMs });
+  return () => {
+    worker.onmessage = null;
+    worker.terminate();
+  };
+}
+
+function createPacingTracker(kind: FrameSchedulerKind, frameRate: number) {
+  const targetInterval = 1000 / frameRate;
+  let intervals: number[] = [];
+  let lastFrameAt: number | null = null;
+
+  const record = (now: number) => {
+    if (lastFrameAt !== null) {
+      intervals.push(now - lastFrameAt);
+      if (intervals.length > PACING_WINDOW) intervals.shift();
+    }
+    lastFrameAt = now;
+  };
+
+  const reset = () => {
+    intervals = [];
+    lastFrameAt = null;
+  };
+
+  const getPacing = (): FramePacing => {
+    if (intervals.length === 0) {
+      return { scheduler: kind, targetFps: frameRate, measuredFps: 0, averageIntervalMs: 0, jitterMs: 0, lateFrames: 0 };
+    }
+    const average = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+    const variance = intervals.reduce((sum, interval) => sum + (interval - average) ** 2, 0) / intervals.length;
+    return {
+      scheduler: kind,
+      targetFps: frameRate,
+      measuredFps: average > 0 ? 1000 / average : 0,
+      averageIntervalMs: average,
+      jitterMs: Math.sqrt(variance),
+      lateFrames: intervals.filter(interval => interval > targetInterval * LATE_FRAME_FACTOR).length,
+    };
+  };
+
+  return { record, reset, getPacing };
+}
+
+/**
+ * Captures a canvas as a stream. Where frames can be pushed by hand, capture
+ * follows `pushFrame` (called after each draw) instead of page paints, which
+ * a hidden tab may never do.
+ */
+export function captureCanvasStream(
+  canvas: HTMLCanvasElement,
+  frameRate: number
+): { stream: MediaStream; pushFrame: () => void } {
+  const canRequestFrame = typeof CanvasCaptureMediaStreamTrack !== 'undefined' &&
+    'requestFrame' in CanvasCaptureMediaStreamTrack.prototype;
+  const stream = canvas.captureStream(canRequestFrame ? 0 : frameRate);
+  const track = canRequestFrame
+    ? stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack | undefined
+    : undefined;
+  return { stream, pushFrame: () => track?.requestFrame() };
+}
+
+/**
+ * Calls back at the target frame rate. Uses a worker timer where workers are
+ * available; otherwise requestAnimationFrame while the tab is visible and a
+ * (throttled) main-thread timer while it is hidden, so frames never stop outright.
+ */
+export function createFrameScheduler(frameRate: number): FrameScheduler {
+  const intervalMs = 1000 / frameRate;
+  const worker = createTimerWorker();
+  const kind: FrameSchedulerKind = worker ? 'worker-timer' : 'animation-frame';
+  const pacing = createPacingTracker(kind, frameRate);
+  let onFrame: (() => void) | null = null;
+
+  const tick = () => {
+    if (!onFrame) return;
+    pacing.record(performance.now());
+    onFrame();
+  };
+
+  if (worker) {
+    worker.onmessage = tick;
+    return {
+      kind,
+      start: (callback) => {
+        onFrame = callback;
+        pacing.reset();
+        worker.postMessage({ intervalMs });
+        tick();
+      },
+      stop: () => {
+        onFrame = null;
+        worker.postMessage({ intervalMs: 0 });
+        worker.terminate();
+      },
+      getPacing: pacing.getPacing,
+    };
+  }
+
+  let frameId: number | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let lastTickAt = 0;
+
+  const cancel = () => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    frameId = null;
+    timeoutId = null;
+  };
+
+  const schedule = () => {
+    if (!onFrame) return;
+    if (document.hidden) {
+      timeoutId = setTimeout(loop, intervalMs);
+    } else {
+      frameId = requestAnimationFrame(loop);
+    }
+  };
+
+  // Animation frames arrive at the display rate; only draw at the target rate
+  const loop = () => {
+    frameId = null;
+    timeoutId = null;
+    const now = performance.now();
+    if (document.hidden || now - lastTickAt >= intervalMs * 0.9) {
+      lastTickAt = now;
+      tick();
+    }
+    schedule();
+  };
+
+  const handleVisibilityChange = () => {
+    if (!onFrame) return;
+    cancel();
+    schedule();
+  };
+
+  return {
+    kind,
+    start: (callback) => {
+      onFrame = callback;
+      pacing.reset();
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      lastTickAt = performance.now();
+      tick();
+      schedule();
+    },
+    stop: () => {
+      onFrame = null;
+      cancel();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    },
+    getPacing: pacing.getPacing,
+  };
+}
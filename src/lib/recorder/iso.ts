@@ -0,0 +1,134 @@
+import { RecorderBitrates, createMediaRecorder, createVideoBlob, createVideoElement, removeVideoElement } from './compositor';
+import { captureCanvasStream, createFrameScheduler } from './frame-scheduler';
+
+/** Bitrate for the raw camera file; the bubble rarely needs more */
+const CAMERA_ISO_BITS_PER_SECOND = 2_500_000;
+const DEFAULT_CAMERA_FRAME_RATE = 30;
+
+export interface IsoRecorder {
+  start: (timeslice: number) => void;
+  pause: () => void;
+  resume: () => void;
+  /** Stops both recorders (once) and resolves with their files */
+  stop: () => Promise<{ screen: Blob; camera: Blob } | null>;
+  /** Continues the camera file from another camera, without a break in the file */
+  replaceCameraStream: (stream: MediaStream) => void;
+}
+
+/**
+ * Redraws the camera onto a canvas so the camera file records one track that
+ * outlives any single camera: a mid-recording swap only changes what is drawn.
+ * The canvas keeps the first camera's size and holds the last frame until the
+ * new camera is ready, so the file neither ends early nor goes black.
+ */
+function createCameraRelay(cameraStream: MediaStream) {
+  const settings = cameraStream.getVideoTracks()[0]?.getSettings() ?? {};
+  const canvas = document.createElement('canvas');
+  canvas.width = settings.width || 1280;
+  canvas.height = settings.height || 720;
+  const ctx = canvas.getContext('2d', { alpha: false })!;
+  const frameRate = settings.frameRate || DEFAULT_CAMERA_FRAME_RATE;
+  const { stream, pushFrame } = captureCanvasStream(canvas, frameRate);
+  const scheduler = createFrameScheduler(frameRate);
+
+  let video = createVideoElement(cameraStream);
+  const play = (target: HTMLVideoElement) => {
+    target.play().catch((e) => {
+      if (e.name !== 'AbortError') console.warn('ISO camera video play failed:', e);
+    });
+  };
+  play(video);
+
+  scheduler.start(() => {
+    if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) return;
+    // Cover-fit, as the bubble crops the camera anyway
+    const scale = Math.max(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    ctx.drawImage(video, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    pushFrame();
+  });
+
+  const replace = (next: MediaStream) => {
+    const previous = video;
+    video = createVideoElement(next);
+    play(video);
+    removeVideoElement(previous);
+  };
+
+  const stop = () => {
+    scheduler.stop();
+    removeVideoElement(video);
+    stream.getTracks().forEach(track => track.stop());
+  };
+
+  return { stream, replace, stop };
+}
+
+function recordTrack(stream: MediaStream, videoBitsPerSecond?: number) {
+  // Video only: audio lives in the composite
+  const recorder = createMediaRecorder(new MediaStream(stream.getVideoTracks()), { videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<Blob | null>((resolve) => {
+    recorder.onstop = () => resolve(chunks.length > 0 ? createVideoBlob(chunks) : null);
+    recorder.onerror = (e) => {
+      console.warn('ISO recorder failed:', e);
+      resolve(null);
+    };
+  });
+  return { recorder, stopped };
+}
+
+/**
+ * Records the raw screen and raw camera as separate files alongside the
+ * composite. All three are started, paused and stopped together so their
+ * timelines line up. The camera goes through a relay canvas so it can be
+ * swapped mid-recording like the composite's.
+ */
+export function createIsoRecorder(
+  screenStream: MediaStream,
+  cameraStream: MediaStream,
+  bitrates: RecorderBitrates = {}
+): IsoRecorder {
+  const screen = recordTrack(screenStream, bitrates.videoBitsPerSecond);
+  const cameraRelay = createCameraRelay(cameraStream);
+  const camera = recordTrack(cameraRelay.stream, CAMERA_ISO_BITS_PER_SECOND);
+  const recorders = [screen.recorder, camera.recorder];
+  let stopPromise: Promise<{ screen: Blob; camera: Blob } | null> | null = null;
+
+  const start = (timeslice: number) => {
+    recorders.forEach(recorder => recorder.start(timeslice));
+  };
+
+  const pause = () => {
+    recorders.forEach(recorder => {
+      if (recorder.state === 'recording') recorder.pause();
+    });
+  };
+
+  const resume = () => {
+    recorders.forEach(recorder => {
+      if (recorder.state === 'paused') recorder.resume();
+    });
+  };
+
+  const stop = () => {
+    if (!stopPromise) {
+      // A recorder that never started won't fire onstop, so its relay is stopped here
+      if (camera.recorder.state === 'inactive') cameraRelay.stop();
+      recorders.forEach(recorder => {
+        if (recorder.state !== 'inactive') recorder.stop();
+      });
+      stopPromise = Promise.all([screen.stopped, camera.stopped]).then(([screenBlob, cameraBlob]) => {
+        cameraRelay.stop();
+        return screenBlob && cameraBlob ? { screen: screenBlob, camera: cameraBlob } : null;
+      });
+    }
+    return stopPromise;
+  };
+
+  return { start, pause, resume, stop, replaceCameraStream: cameraRelay.replace };
+}
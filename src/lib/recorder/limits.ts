@@ -0,0 +1,49 @@
+import { RecordingLimits } from '../types';
+
+export type RecordingLimitKind = 'duration' | 'size';
+
+export interface RecordingLimitStatus {
+  /** The limit that has been reached, if any */
+  reached: RecordingLimitKind | null;
+  /** Limits at or past the warning threshold */
+  approaching: RecordingLimitKind[];
+  /** Seconds until the nearest limit, estimated from the bitrate so far for size limits */
+  timeRemaining: number | null;
+}
+
+/** Fraction of a limit at which the presenter is warned */
+export const LIMIT_WARNING_RATIO = 0.9;
+
+export function evaluateRecordingLimits(
+  limits: RecordingLimits,
+  elapsedSeconds: number,
+  recordedBytes: number
+): RecordingLimitStatus {
+  const approaching: RecordingLimitKind[] = [];
+  const remaining: number[] = [];
+  let reached: RecordingLimitKind | null = null;
+
+  if (limits.maxDurationSeconds) {
+    const ratio = elapsedSeconds / limits.maxDurationSeconds;
+    if (ratio >= 1) reached = 'duration';
+    else if (ratio >= LIMIT_WARNING_RATIO) approaching.push('duration');
+    remaining.push(Math.max(0, limits.maxDurationSeconds - elapsedSeconds));
+  }
+
+  if (limits.maxFileSizeBytes) {
+    const ratio = recordedBytes / limits.maxFileSizeBytes;
+    if (ratio >= 1) reached = reached ?? 'size';
+    else if (ratio >= LIMIT_WARNING_RATIO) approaching.push('size');
+
+    if (elapsedSeconds > 0 && recordedBytes > 0) {
+      const bytesPerSecond = recordedBytes / elapsedSeconds;
+      remaining.push(Math.max(0, (limits.maxFileSizeBytes - recordedBytes) / bytesPerSecond));
+    }
+  }
+
+  return {
+    reached,
+    approaching,
+    timeRemaining: remaining.length > 0 ? Math.min(...remaining) : null,
+  };
+}
@@ -0,0 +1,188 @@
+import { MicProcessingProfile } from '../types';
+import { startWorkerInterval } from './frame-scheduler';
+
+export interface MicProcessingConfig {
+  /** Cutoff below which rumble, desk knocks and HVAC hum are removed */
+  highPassHz: number;
+  /** Level (dBFS) the gate opens above */
+  gateOpenDb: number;
+  /** Level (dBFS) the gate closes below; lower than `gateOpenDb` to avoid chatter */
+  gateCloseDb: number;
+  /** Gain applied to the signal while the gate is closed */
+  gateFloor: number;
+  compressor: {
+    threshold: number;
+    ratio: number;
+    knee: number;
+    attack: number;
+    release: number;
+  };
+  /** Gain after the compressor to bring the quieter, evened out voice back up */
+  makeupGain: number;
+  /** Ceiling (dBFS) of the final limiter */
+  limiterDb: number;
+}
+
+export interface MicProcessingChain {
+  /** Connect the microphone source here */
+  input: AudioNode;
+  /** Processed signal; connect this onwards */
+  output: AudioNode;
+  setProfile: (profile: MicProcessingProfile) => void;
+  dispose: () => void;
+}
+
+export const MIC_PROCESSING_PROFILES: Record<MicProcessingProfile, MicProcessingConfig | null> = {
+  off: null,
+  light: {
+    highPassHz: 80,
+    gateOpenDb: -58,
+    gateCloseDb: -64,
+    gateFloor: 0.25,
+    compressor: { threshold: -24, ratio: 2, knee: 10, attack: 0.01, release: 0.25 },
+    makeupGain: 1.25,
+    limiterDb: -3,
+  },
+  broadcast: {
+    highPassHz: 100,
+    gateOpenDb: -48,
+    gateCloseDb: -54,
+    gateFloor: 0.05,
+    compressor: { threshold: -30, ratio: 4, knee: 6, attack: 0.005, release: 0.2 },
+    makeupGain: 2,
+    limiterDb: -1,
+  },
+};
+
+export const MIC_PROCESSING_LABELS: Record<MicProcessingProfile, string> = {
+  off: 'Off',
+  light: 'Light',
+  broadcast: 'Broadcast',
+};
+
+/** How often the gate looks at the input level */
+const GATE_CHECK_INTERVAL_MS = 20;
+/** How long the gate stays open after the level drops, so word endings survive */
+const GATE_HOLD_SECONDS = 0.15;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.08;
+
+/**
+ * High-pass filter → noise gate → compressor → make-up gain → limiter.
+ * Web Audio has no gate node, so the gate is a gain driven by a level check.
+ * The check runs on a worker timer: a main-thread timer slows to once a
+ * second while the tab is hidden, which is most of a screen recording. With
+ * the `off` profile the input is wired straight to the output.
+ */
+export function createMicProcessingChain(
+  audioContext: AudioContext,
+  profile: MicProcessingProfile
+): MicProcessingChain {
+  const input = audioContext.createGain();
+  const output = audioContext.createGain();
+
+  const highPass = audioContext.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.Q.value = 0.707;
+
+  const gateAnalyser = audioContext.createAnalyser();
+  gateAnalyser.fftSize = 512;
+  const gate = audioContext.createGain();
+
+  const compressor = audioContext.createDynamicsCompressor();
+  const makeup = audioContext.createGain();
+
+  const limiter = audioContext.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.05;
+
+  highPass.connect(gate);
+  highPass.connect(gateAnalyser);
+  gate.connect(compressor);
+  compressor.connect(makeup);
+  makeup.connect(limiter);
+  limiter.connect(output);
+
+  const nodes: AudioNode[] = [input, highPass, gateAnalyser, gate, compressor, makeup, limiter];
+
+  let config: MicProcessingConfig | null = null;
+  let stopGateTimer: (() => void) | null = null;
+  let gateOpen = true;
+  let lastOpenTime = 0;
+  const levelBuffer = new Float32Array(gateAnalyser.fftSize);
+
+  const checkGate = () => {
+    if (!config) return;
+    gateAnalyser.getFloatTimeDomainData(levelBuffer);
+    let sumSquares = 0;
+    for (let i = 0; i < levelBuffer.length; i++) {
+      sumSquares += levelBuffer[i] * levelBuffer[i];
+    }
+    const db = 20 * Math.log10(Math.sqrt(sumSquares / levelBuffer.length) || 1e-8);
+    const now = audioContext.currentTime;
+
+    if (db > config.gateOpenDb) {
+      lastOpenTime = now;
+      if (!gateOpen) {
+        gateOpen = true;
+        gate.gain.setTargetAtTime(1, now, GATE_ATTACK_SECONDS);
+      }
+    } else if (gateOpen && db < config.gateCloseDb && now - lastOpenTime > GATE_HOLD_SECONDS) {
+      gateOpen = false;
+      gate.gain.setTargetAtTime(config.gateFloor, now, GATE_RELEASE_SECONDS);
+    }
+  };
+
+  const setProfile = (next: MicProcessingProfile) => {
+    config = MIC_PROCESSING_PROFILES[next];
+
+    try {
+      input.disconnect();
+    } catch {
+      // Not connected yet
+    }
+
+    if (!config) {
+      stopGateTimer?.();
+      stopGateTimer = null;
+      input.connect(output);
+      return;
+    }
+
+    highPass.frequency.value = config.highPassHz;
+    compressor.threshold.value = config.compressor.threshold;
+    compressor.ratio.value = config.compressor.ratio;
+    compressor.knee.value = config.compressor.knee;
+    compressor.attack.value = config.compressor.attack;
+    compressor.release.value = config.compressor.release;
+    makeup.gain.value = config.makeupGain;
+    limiter.threshold.value = config.limiterDb;
+
+    gateOpen = true;
+    gate.gain.cancelScheduledValues(audioContext.currentTime);
+    gate.gain.value = 1;
+    input.connect(highPass);
+
+    if (!stopGateTimer) {
+      stopGateTimer = startWorkerInterval(GATE_CHECK_INTERVAL_MS, checkGate);
+    }
+  };
+
+  const dispose = () => {
+    stopGateTimer?.();
+    stopGateTimer = null;
+    [...nodes, output].forEach(node => {
+      try {
+        node.disconnect();
+      } catch {
+        // Already disconnected
+      }
+    });
+  };
+
+  setProfile(profile);
+
+  return { input, output, setProfile, dispose };
+}
@@ -0,0 +1,155 @@
+import { MicError, MicErrorResult, getSupportedAudioMimeType, isMicError } from './audio';
+import { CameraError, CameraErrorResult } from './camera';
+import { getSupportedMimeType } from './compositor';
+
+export type PreflightStatus = 'pending' | 'ok' | 'warning' | 'error';
+
+export type PreflightCheckId = 'microphone' | 'camera' | 'storage' | 'format';
+
+export interface PreflightCheck {
+  id: PreflightCheckId;
+  status: PreflightStatus;
+  message: string;
+}
+
+/** Peak mic RMS below which the mic is considered silent */
+const SILENT_MIC_THRESHOLD = 0.005;
+/** Recording time left on disk below which recording is refused / warned about */
+const STORAGE_ERROR_MINUTES = 2;
+const STORAGE_WARNING_MINUTES = 15;
+
+const MIC_ERROR_HINTS: Record<MicError, string> = {
+  permission_denied: 'Allow microphone access in the browser\'s site settings.',
+  not_found: 'Plug in a microphone or pick another input.',
+  in_use: 'Close other apps that are using the microphone.',
+  unknown: 'Try another microphone.',
+};
+
+const CAMERA_ERROR_HINTS: Record<CameraError, string> = {
+  permission_denied: 'Allow camera access in the browser\'s site settings.',
+  not_found: 'Plug in a camera or pick another device.',
+  in_use: 'Close other apps that are using the camera.',
+  unknown: 'Try another camera.',
+};
+
+export function getMicErrorCheck(result: MicErrorResult): PreflightCheck {
+  return { id: 'microphone', status: 'error', message: `${result.message} ${MIC_ERROR_HINTS[result.error]}` };
+}
+
+export function getCameraErrorCheck(result: CameraErrorResult): PreflightCheck {
+  return { id: 'camera', status: 'error', message: `${result.message} ${CAMERA_ERROR_HINTS[result.error]}` };
+}
+
+/**
+ * Listens to the mic for `durationMs` and reports whether anything was heard.
+ * A hardware mute switch or a muted OS input shows up as a silent track.
+ */
+export async function checkMicrophoneSignal(
+  result: MediaStream | MicErrorResult,
+  durationMs: number = 2000
+): Promise<PreflightCheck> {
+  if (isMicError(result)) return getMicErrorCheck(result);
+
+  const track = result.getAudioTracks()[0];
+  if (!track || track.readyState === 'ended') {
+    return getMicErrorCheck({ error: 'not_found', message: 'The microphone stopped responding.' });
+  }
+
+  const audioContext = new AudioContext();
+  try {
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(result).connect(analyser);
+    const buffer = new Float32Array(analyser.fftSize);
+
+    let peak = 0;
+    const endTime = performance.now() + durationMs;
+    while (performance.now() < endTime) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      analyser.getFloatTimeDomainData(buffer);
+      let sumSquares = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        sumSquares += buffer[i] * buffer[i];
+      }
+      peak = Math.max(peak, Math.sqrt(sumSquares / buffer.length));
+    }
+
+    if (track.muted || peak < SILENT_MIC_THRESHOLD) {
+      return {
+        id: 'microphone',
+        status: 'warning',
+        message: `No sound from ${track.label || 'the microphone'}. Check its mute switch and the system input level.`,
+      };
+    }
+    return { id: 'microphone', status: 'ok', message: `${track.label || 'Microphone'} is picking up sound.` };
+  } finally {
+    audioContext.close();
+  }
+}
+
+/** Compares free browser storage with how much a minute of recording takes */
+export async function checkStorage(bytesPerMinute: number): Promise<PreflightCheck> {
+  if (!navigator.storage?.estimate) {
+    return { id: 'storage', status: 'warning', message: 'This browser does not report free storage.' };
+  }
+
+  try {
+    const { quota = 0, usage = 0 } = await navigator.storage.estimate();
+    const freeBytes = Math.max(0, quota - usage);
+    const minutes = Math.floor(freeBytes / bytesPerMinute);
+    const summary = `${(freeBytes / 1_000_000_000).toFixed(1)} GB free (~${minutes} min at this quality).`;
+
+    if (minutes < STORAGE_ERROR_MINUTES) {
+      return { id: 'storage', status: 'error', message: `Almost out of space: ${summary}` };
+    }
+    if (minutes < STORAGE_WARNING_MINUTES) {
+      return { id: 'storage', status: 'warning', message: `Low disk space: ${summary}` };
+    }
+    return { id: 'storage', status: 'ok', message: summary };
+  } catch (error) {
+    console.warn('Storage estimate failed:', error);
+    return { id: 'storage', status: 'warning', message: 'Could not check free storage.' };
+  }
+}
+
+/** Reports the container the recorder will use, and flags fallbacks */
+export function checkRecordingFormat(audioOnly: boolean): PreflightCheck {
+  if (typeof MediaRecorder === 'undefined') {
+    return { id: 'format', status: 'error', message: 'This browser cannot record media.' };
+  }
+
+  const mimeType = audioOnly ? getSupportedAudioMimeType() : getSupportedMimeType();
+  if (!MediaRecorder.isTypeSupported(mimeType)) {
+    return { id: 'format', status: 'error', message: `No supported recording format (tried ${mimeType}).` };
+  }
+  if (!mimeType.includes('webm')) {
+    return {
+      id: 'format',
+      status: 'warning',
+      message: `Recording as ${mimeType}. WebM is unavailable, so the file is not remuxed for seeking.`,
+    };
+  }
+  return { id: 'format', status: 'ok', message: `Recording as ${mimeType}.` };
+}
+
+/** Records the mic for `durationMs` so the presenter can hear themselves back */
+export function recordLoopback(stream: MediaStream, durationMs: number = 3000): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const recorder = new MediaRecorder(new MediaStream(stream.getAudioTracks()), {
+      mimeType: getSupportedAudioMimeType(),
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null);
+    recorder.onerror = (e) => {
+      console.warn('Loopback recording failed:', e);
+      resolve(null);
+    };
+    recorder.start();
+    setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, durationMs);
+  });
+}
@@ -0,0 +1,141 @@
+import { SceneLayout } from '../types';
+import { BubbleRect } from './camera-bubble';
+import { easeInOutCubic } from './viewport';
+
+/** Where screen and camera go on the canvas for one scene, in canvas pixels */
+export interface SceneGeometry {
+  /** Slot the screen is fitted into, letterboxed to keep its aspect */
+  screen: BubbleRect;
+  screenOpacity: number;
+  /** Slot the camera is drawn into */
+  camera: BubbleRect;
+  cameraOpacity: number;
+  /** 0 draws the camera as the styled bubble, 1 as a plain panel */
+  cameraPanel: number;
+}
+
+export interface SceneAnimator {
+  setLayout: (layout: SceneLayout) => void;
+  layout: () => SceneLayout;
+  /**
+   * Geometry for this frame. `resolve` returns a layout's geometry for the
+   * current canvas and bubble, so the scene follows bubble moves mid-animation.
+   */
+  current: (resolve: (layout: SceneLayout) => SceneGeometry) => SceneGeometry;
+}
+
+export const SCENE_LAYOUTS: SceneLayout[] = ['screen-bubble', 'split', 'camera-inset', 'screen-only'];
+
+export const SCENE_LABELS: Record<SceneLayout, string> = {
+  'screen-bubble': 'Screen + bubble',
+  split: 'Side by side',
+  'camera-inset': 'Camera + screen inset',
+  'screen-only': 'Screen only',
+};
+
+/** Share of the width the screen gets in the split scene */
+const SPLIT_SCREEN_RATIO = 0.65;
+/** Size of the screen inset relative to the canvas in the camera scene */
+const INSET_RATIO = 0.28;
+/** Gap around panels, relative to the canvas width */
+const PADDING_RATIO = 0.02;
+
+export function getSceneGeometry(
+  layout: SceneLayout,
+  canvasWidth: number,
+  canvasHeight: number,
+  bubble: BubbleRect
+): SceneGeometry {
+  const full = { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+  const padding = canvasWidth * PADDING_RATIO;
+
+  switch (layout) {
+    case 'split': {
+      const divider = canvasWidth * SPLIT_SCREEN_RATIO;
+      return {
+        screen: { x: padding, y: padding, width: divider - padding * 1.5, height: canvasHeight - padding * 2 },
+        screenOpacity: 1,
+        camera: {
+          x: divider + padding / 2,
+          y: padding,
+          width: canvasWidth - divider - padding * 1.5,
+          height: canvasHeight - padding * 2,
+        },
+        cameraOpacity: 1,
+        cameraPanel: 1,
+      };
+    }
+    case 'camera-inset': {
+      const insetWidth = canvasWidth * INSET_RATIO;
+      const insetHeight = canvasHeight * INSET_RATIO;
+      return {
+        screen: {
+          x: canvasWidth - insetWidth - padding,
+          y: canvasHeight - insetHeight - padding,
+          width: insetWidth,
+          height: insetHeight,
+        },
+        screenOpacity: 1,
+        camera: full,
+        cameraOpacity: 1,
+        cameraPanel: 1,
+      };
+    }
+    case 'screen-only':
+      return { screen: full, screenOpacity: 1, camera: bubble, cameraOpacity: 0, cameraPanel: 0 };
+    case 'screen-bubble':
+    default:
+      return { screen: full, screenOpacity: 1, camera: bubble, cameraOpacity: 1, cameraPanel: 0 };
+  }
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+function lerpRect(from: BubbleRect, to: BubbleRect, t: number): BubbleRect {
+  return {
+    x: lerp(from.x, to.x, t),
+    y: lerp(from.y, to.y, t),
+    width: lerp(from.width, to.width, t),
+    height: lerp(from.height, to.height, t),
+  };
+}
+
+function lerpGeometry(from: SceneGeometry, to: SceneGeometry, t: number): SceneGeometry {
+  return {
+    screen: lerpRect(from.screen, to.screen, t),
+    screenOpacity: lerp(from.screenOpacity, to.screenOpacity, t),
+    camera: lerpRect(from.camera, to.camera, t),
+    cameraOpacity: lerp(from.cameraOpacity, to.cameraOpacity, t),
+    cameraPanel: lerp(from.cameraPanel, to.cameraPanel, t),
+  };
+}
+
+/**
+ * Tweens between scene geometries. Like the viewport animator, a new scene
+ * starts from wherever the previous transition currently is.
+ */
+export function createSceneAnimator(initial: SceneLayout, durationMs: number = 500): SceneAnimator {
+  let target = initial;
+  let from: SceneGeometry | null = null;
+  let lastFrame: SceneGeometry | null = null;
+  let startedAt = 0;
+
+  const setLayout = (layout: SceneLayout) => {
+    if (layout === target) return;
+    target = layout;
+    from = lastFrame;
+    startedAt = performance.now();
+  };
+
+  const current = (resolve: (layout: SceneLayout) => SceneGeometry) => {
+    const to = resolve(target);
+    const progress = Math.min(1, (performance.now() - startedAt) / durationMs);
+    lastFrame = from && progress < 1 ? lerpGeometry(from, to, easeInOutCubic(progress)) : to;
+    if (progress >= 1) from = null;
+    return lastFrame;
+  };
+
+  return { setLayout, layout: () => target, current };
+}
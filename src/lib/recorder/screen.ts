@@ -3,12 +3,15 @@ export interface ScreenCaptureResult {
   hasSystemAudio: boolean;
 }
 
-export async function startScreenCapture(includeSystemAudio: boolean = true): Promise<ScreenCaptureResult | null> {
+export async function startScreenCapture(
+  includeSystemAudio: boolean = true,
+  frameRate: number = 30
+): Promise<ScreenCaptureResult | null> {
   try {
     const stream = await navigator.mediaDevices.getDisplayMedia({
       video: {
         displaySurface: 'monitor',
-        frameRate: { ideal: 30, max: 60 },
+        frameRate: { ideal: frameRate, max: Math.max(frameRate, 60) },
       },
       audio: includeSystemAudio ? {
         echoCancellation: false,
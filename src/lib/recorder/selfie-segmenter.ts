@@ -0,0 +1,162 @@
+import type { Results, SelfieSegmentation } from '@mediapipe/selfie_segmentation';
+import solutionScriptUrl from '@mediapipe/selfie_segmentation/selfie_segmentation.js?url';
+import graphUrl from '@mediapipe/selfie_segmentation/selfie_segmentation.binarypb?url';
+import modelUrl from '@mediapipe/selfie_segmentation/selfie_segmentation.tflite?url';
+import landscapeModelUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_landscape.tflite?url';
+import simdLoaderUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.js?url';
+import simdWasmUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.wasm?url';
+import simdDataUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_simd_wasm_bin.data?url';
+import loaderUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.js?url';
+import wasmUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_solution_wasm_bin.wasm?url';
+import type { Segmenter } from './camera-effects';
+
+declare global {
+  interface Window {
+    SelfieSegmentation?: typeof SelfieSegmentation;
+  }
+}
+
+/**
+ * Every file the solution asks for, bundled as the app's own assets so the
+ * model is never fetched from a CDN.
+ */
+const SOLUTION_FILES: Record<string, string> = {
+  'selfie_segmentation.binarypb': graphUrl,
+  'selfie_segmentation.tflite': modelUrl,
+  'selfie_segmentation_landscape.tflite': landscapeModelUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.js': simdLoaderUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'selfie_segmentation_solution_simd_wasm_bin.data': simdDataUrl,
+  'selfie_segmentation_solution_wasm_bin.js': loaderUrl,
+  'selfie_segmentation_solution_wasm_bin.wasm': wasmUrl,
+};
+
+/** The model works at this width (landscape model: 256x144), so larger inputs only cost time */
+const INPUT_WIDTH = 256;
+/** 1 = the landscape model, lighter and suited to webcam frames */
+const MODEL_SELECTION = 1;
+
+type SegmentationMask = Results['segmentationMask'];
+
+let solutionPromise: Promise<SelfieSegmentation> | null = null;
+let latestMask: SegmentationMask | null = null;
+// The solution runs one frame at a time, shared by every segmenter on the page
+let queue: Promise<unknown> = Promise.resolve();
+
+/** The solution script registers a global rather than exporting, so it is loaded as a script */
+function loadSolutionScript(): Promise<typeof SelfieSegmentation> {
+  return new Promise((resolve, reject) => {
+    if (window.SelfieSegmentation) {
+      resolve(window.SelfieSegmentation);
+      return;
+    }
+    const script = document.createElement('script');
+    script.src = solutionScriptUrl;
+    script.onload = () => {
+      if (window.SelfieSegmentation) resolve(window.SelfieSegmentation);
+      else reject(new Error('Segmentation script loaded without the solution'));
+    };
+    script.onerror = () => reject(new Error('Failed to load segmentation script'));
+    document.head.appendChild(script);
+  });
+}
+
+function getSolution(): Promise<SelfieSegmentation> {
+  if (!solutionPromise) {
+    solutionPromise = loadSolutionScript()
+      .then(async (SolutionClass) => {
+        const solution = new SolutionClass({ locateFile: (file) => SOLUTION_FILES[file] ?? file });
+        // Mirroring is applied when the bubble is drawn
+        solution.setOptions({ modelSelection: MODEL_SELECTION, selfieMode: false });
+        solution.onResults((results) => {
+          latestMask = results.segmentationMask;
+        });
+        await solution.initialize();
+        return solution;
+      })
+      .catch((error) => {
+        solutionPromise = null;
+        throw error;
+      });
+  }
+  return solutionPromise;
+}
+
+/** Segments one frame; `onMask` runs before any other frame can replace the mask */
+function segmentFrame(image: HTMLCanvasElement, onMask: (mask: SegmentationMask) => void): Promise<void> {
+  const run = queue.then(async () => {
+    const solution = await getSolution();
+    latestMask = null;
+    await solution.send({ image });
+    if (latestMask) onMask(latestMask);
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Person segmentation with MediaPipe's selfie segmentation model. Inference
+ * is asynchronous, so `segment` returns the most recent mask and starts the
+ * next frame when the previous one is done; the mask trails the video by a
+ * frame or two. Until the model has loaded the whole frame counts as the
+ * presenter, so the camera shows unchanged rather than blurred away.
+ */
+export function createSelfieSegmenter(): Segmenter {
+  const input = document.createElement('canvas');
+  const inputCtx = input.getContext('2d')!;
+  const mask = document.createElement('canvas');
+  const maskCtx = mask.getContext('2d')!;
+  let hasMask = false;
+  let isBusy = false;
+  let failed = false;
+  let disposed = false;
+
+  const fillMask = () => {
+    maskCtx.fillStyle = '#000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+  };
+
+  const segment = (source: CanvasImageSource, width: number, height: number) => {
+    const targetWidth = Math.max(1, Math.round(width));
+    const targetHeight = Math.max(1, Math.round(height));
+    if (mask.width !== targetWidth || mask.height !== targetHeight) {
+      mask.width = targetWidth;
+      mask.height = targetHeight;
+      hasMask = false;
+    }
+    if (!hasMask) fillMask();
+
+    if (!isBusy && !failed) {
+      isBusy = true;
+      input.width = INPUT_WIDTH;
+      input.height = Math.max(1, Math.round((INPUT_WIDTH * targetHeight) / targetWidth));
+      inputCtx.drawImage(source, 0, 0, input.width, input.height);
+      segmentFrame(input, (result) => {
+        if (disposed) return;
+        maskCtx.globalCompositeOperation = 'copy';
+        maskCtx.drawImage(result, 0, 0, mask.width, mask.height);
+        maskCtx.globalCompositeOperation = 'source-over';
+        hasMask = true;
+      })
+        .catch((error) => {
+          // The camera keeps showing unchanged; retrying every frame would only repeat the error
+          console.error('Person segmentation failed:', error);
+          failed = true;
+        })
+        .finally(() => {
+          isBusy = false;
+        });
+    }
+    return mask;
+  };
+
+  const dispose = () => {
+    disposed = true;
+    mask.width = 1;
+    mask.height = 1;
+    input.width = 1;
+    input.height = 1;
+  };
+
+  return { segment, dispose };
+}
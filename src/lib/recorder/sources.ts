@@ -0,0 +1,161 @@
+import { CameraShape } from '../types';
+import { ViewportRect, FULL_VIEWPORT } from './viewport';
+
+export type VideoSourceKind = 'screen' | 'camera';
+
+/**
+ * A video in the output. The list of them is the stacking order: the main
+ * screen and camera are entries like any other, alongside extras such as a
+ * second display or a webcam pointed at hardware.
+ */
+export interface VideoSource {
+  id: string;
+  kind: VideoSourceKind;
+  label: string;
+  /** Null for the main screen and camera, whose streams the compositor is given directly */
+  stream: MediaStream | null;
+  /**
+   * Where the source sits on the output, normalized to the canvas. The main
+   * screen's scene plays out within it; the main camera ignores it and is
+   * placed by the scene and its own settings.
+   */
+  layout: ViewportRect;
+  /** Unused by the main screen and camera */
+  shape: CameraShape;
+}
+
+export const MAIN_SCREEN_SOURCE_ID = 'main-screen';
+export const MAIN_CAMERA_SOURCE_ID = 'main-camera';
+
+const MAIN_SCREEN_SOURCE: VideoSource = {
+  id: MAIN_SCREEN_SOURCE_ID,
+  kind: 'screen',
+  label: 'Main screen',
+  stream: null,
+  layout: FULL_VIEWPORT,
+  shape: 'rectangle',
+};
+
+const MAIN_CAMERA_SOURCE: VideoSource = {
+  id: MAIN_CAMERA_SOURCE_ID,
+  kind: 'camera',
+  label: 'Main camera',
+  stream: null,
+  layout: FULL_VIEWPORT,
+  shape: 'rectangle',
+};
+
+/** Preset places for a source; the main scene can take one too */
+export type SourceSlot =
+  | 'full'
+  | 'left-half'
+  | 'right-half'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+/** Size of the corner slots relative to the canvas */
+const CORNER_RATIO = 0.3;
+/** Gap between a corner slot and the canvas edge, relative to the canvas */
+const CORNER_PADDING = 0.02;
+
+export const SOURCE_SLOTS: Record<SourceSlot, ViewportRect> = {
+  full: FULL_VIEWPORT,
+  'left-half': { x: 0, y: 0, width: 0.5, height: 1 },
+  'right-half': { x: 0.5, y: 0, width: 0.5, height: 1 },
+  'top-left': { x: CORNER_PADDING, y: CORNER_PADDING, width: CORNER_RATIO, height: CORNER_RATIO },
+  'top-right': { x: 1 - CORNER_RATIO - CORNER_PADDING, y: CORNER_PADDING, width: CORNER_RATIO, height: CORNER_RATIO },
+  'bottom-left': { x: CORNER_PADDING, y: 1 - CORNER_RATIO - CORNER_PADDING, width: CORNER_RATIO, height: CORNER_RATIO },
+  'bottom-right': {
+    x: 1 - CORNER_RATIO - CORNER_PADDING,
+    y: 1 - CORNER_RATIO - CORNER_PADDING,
+    width: CORNER_RATIO,
+    height: CORNER_RATIO,
+  },
+};
+
+export const SOURCE_SLOT_LABELS: Record<SourceSlot, string> = {
+  full: 'Full frame',
+  'left-half': 'Left half',
+  'right-half': 'Right half',
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+export function isMainSource(source: VideoSource): boolean {
+  return source.id === MAIN_SCREEN_SOURCE_ID || source.id === MAIN_CAMERA_SOURCE_ID;
+}
+
+/**
+ * Adds or drops the main screen and camera entries to match what is being
+ * recorded, keeping everything else in place. A main entry that is added
+ * goes at the bottom, the camera just above the screen. Returns the same
+ * list when nothing changes.
+ */
+export function withMainSources(sources: VideoSource[], hasScreen: boolean, hasCamera: boolean): VideoSource[] {
+  let next = sources;
+  const hasEntry = (id: string) => next.some(source => source.id === id);
+
+  if (!hasScreen && hasEntry(MAIN_SCREEN_SOURCE_ID)) next = next.filter(source => source.id !== MAIN_SCREEN_SOURCE_ID);
+  if (!hasCamera && hasEntry(MAIN_CAMERA_SOURCE_ID)) next = next.filter(source => source.id !== MAIN_CAMERA_SOURCE_ID);
+  if (hasScreen && !hasEntry(MAIN_SCREEN_SOURCE_ID)) next = [MAIN_SCREEN_SOURCE, ...next];
+  if (hasCamera && !hasEntry(MAIN_CAMERA_SOURCE_ID)) {
+    const screenIndex = next.findIndex(source => source.id === MAIN_SCREEN_SOURCE_ID);
+    next = [...next.slice(0, screenIndex + 1), MAIN_CAMERA_SOURCE, ...next.slice(screenIndex + 1)];
+  }
+  return next;
+}
+
+/**
+ * Removes a source. Once only the main screen and camera are left they go
+ * back to their default order, and the screen to the whole frame.
+ */
+export function removeSource(sources: VideoSource[], id: string): VideoSource[] {
+  const next = sources.filter(source => source.id !== id || isMainSource(source));
+  if (next.some(source => !isMainSource(source))) return next;
+  return withMainSources(
+    [],
+    next.some(source => source.id === MAIN_SCREEN_SOURCE_ID),
+    next.some(source => source.id === MAIN_CAMERA_SOURCE_ID)
+  );
+}
+
+/** The preset a layout matches, or null if it was placed some other way */
+export function getSourceSlot(layout: ViewportRect): SourceSlot | null {
+  const slots = Object.keys(SOURCE_SLOTS) as SourceSlot[];
+  return slots.find(slot => {
+    const rect = SOURCE_SLOTS[slot];
+    return rect.x === layout.x && rect.y === layout.y && rect.width === layout.width && rect.height === layout.height;
+  }) ?? null;
+}
+
+/**
+ * Where a newly added source goes: a second screen beside the main one, a
+ * camera in a free corner.
+ */
+export function getDefaultSourceSlot(kind: VideoSourceKind, existing: VideoSource[]): SourceSlot {
+  if (kind === 'screen' && !existing.some(source => getSourceSlot(source.layout) === 'right-half')) {
+    return 'right-half';
+  }
+  const corners: SourceSlot[] = ['bottom-left', 'top-right', 'top-left', 'bottom-right'];
+  const taken = new Set(existing.map(source => getSourceSlot(source.layout)));
+  return corners.find(corner => !taken.has(corner)) ?? 'bottom-left';
+}
+
+/** Moves a source one step up (drawn later, on top) or down the z-order */
+export function moveSource(sources: VideoSource[], id: string, direction: 1 | -1): VideoSource[] {
+  const index = sources.findIndex(source => source.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= sources.length) return sources;
+  const next = [...sources];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/** Stops an extra source's tracks; the main screen and camera are stopped by their owners */
+export function stopVideoSource(source: VideoSource): void {
+  source.stream?.getTracks().forEach(track => track.stop());
+}
@@ -0,0 +1,177 @@
+const DB_NAME = 'poor-mans-loom';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+
+export interface RecordingSessionManifest {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  chunkCount: number;
+  byteLength: number;
+  duration: number;
+}
+
+export interface RecordingSession {
+  id: string;
+  appendChunk: (chunk: Blob, duration: number) => void;
+  complete: () => Promise<void>;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function sessionChunkRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+}
+
+/**
+ * Starts a persisted recording session. Chunks passed to `appendChunk` are
+ * written to IndexedDB in order, so an interrupted recording can be rebuilt
+ * after a crash or reload. Returns null when storage is unavailable, in which
+ * case the caller should keep recording in memory only.
+ */
+export async function createRecordingSession(mimeType: string): Promise<RecordingSession | null> {
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch (err) {
+    console.error('Error opening recording storage:', err);
+    return null;
+  }
+
+  const now = Date.now();
+  const manifest: RecordingSessionManifest = {
+    id: crypto.randomUUID(),
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    chunkCount: 0,
+    byteLength: 0,
+    duration: 0,
+  };
+
+  try {
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(manifest);
+    await transactionDone(tx);
+  } catch (err) {
+    console.error('Error creating recording session:', err);
+    return null;
+  }
+
+  // Writes are chained so chunks land in order and complete() can wait for them
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const appendChunk = (chunk: Blob, duration: number) => {
+    const index = manifest.chunkCount;
+    manifest.chunkCount += 1;
+    manifest.byteLength += chunk.size;
+    manifest.duration = duration;
+    manifest.updatedAt = Date.now();
+    const snapshot = { ...manifest };
+
+    writeQueue = writeQueue.then(async () => {
+      try {
+        const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+        const stored: StoredChunk = { sessionId: manifest.id, index, data: chunk };
+        tx.objectStore(CHUNKS_STORE).put(stored);
+        tx.objectStore(SESSIONS_STORE).put(snapshot);
+        await transactionDone(tx);
+      } catch (err) {
+        console.error('Error persisting recording chunk:', err);
+      }
+    });
+  };
+
+  const complete = async () => {
+    await writeQueue;
+    await deleteRecordingSession(manifest.id);
+  };
+
+  return { id: manifest.id, appendChunk, complete };
+}
+
+export async function getUnfinishedSessions(): Promise<RecordingSessionManifest[]> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await requestResult(
+      tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<RecordingSessionManifest[]>
+    );
+    return sessions
+      .filter(session => session.chunkCount > 0)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (err) {
+    console.error('Error reading recording sessions:', err);
+    return [];
+  }
+}
+
+export async function loadSessionChunks(sessionId: string): Promise<Blob[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(CHUNKS_STORE, 'readonly');
+  const chunks = await requestResult(
+    tx.objectStore(CHUNKS_STORE).getAll(sessionChunkRange(sessionId)) as IDBRequest<StoredChunk[]>
+  );
+  return chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.data);
+}
+
+export async function deleteRecordingSession(sessionId: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(CHUNKS_STORE).delete(sessionChunkRange(sessionId));
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    await transactionDone(tx);
+  } catch (err) {
+    console.error('Error deleting recording session:', err);
+  }
+}
@@ -0,0 +1,81 @@
+export type ScriptBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'bullet'; text: string }
+  | { type: 'paragraph'; text: string };
+
+export interface ScriptSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** Scroll speeds offered by the teleprompter, in pixels per second */
+export const TELEPROMPTER_SPEEDS = [10, 20, 30, 45, 60, 80, 100];
+export const DEFAULT_TELEPROMPTER_SPEED = 30;
+
+/**
+ * Splits pasted notes into blocks. Understands the Markdown a script needs
+ * (headings, bullet and numbered lists, paragraphs); anything else is shown
+ * as plain text, so pasting a plain text file works too.
+ */
+export function parseScript(source: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, text: heading[2] });
+      continue;
+    }
+
+    const bullet = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      flushParagraph();
+      blocks.push({ type: 'bullet', text: bullet[1] });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/** Splits a line into **bold**, *italic* and plain runs */
+export function parseInline(text: string): ScriptSpan[] {
+  const spans: ScriptSpan[] = [];
+  const pattern = /\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) spans.push({ text: text.slice(lastIndex, match.index) });
+    const bold = match[1] ?? match[2];
+    if (bold !== undefined) {
+      spans.push({ text: bold, bold: true });
+    } else {
+      spans.push({ text: match[3] ?? match[4], italic: true });
+    }
+    lastIndex = pattern.lastIndex;
+  }
+  if (lastIndex < text.length) spans.push({ text: text.slice(lastIndex) });
+
+  return spans;
+}
@@ -0,0 +1,96 @@
+/** Rectangle normalized to 0..1 of the source (or canvas) it refers to */
+export interface ViewportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_VIEWPORT: ViewportRect = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Smallest region that can be zoomed into (10x) */
+const MIN_VIEWPORT_SIZE = 0.1;
+
+export interface ViewportAnimator {
+  setTarget: (rect: ViewportRect) => void;
+  /** Current interpolated viewport; call once per frame */
+  current: () => ViewportRect;
+  target: () => ViewportRect;
+}
+
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function lerpRect(from: ViewportRect, to: ViewportRect, t: number): ViewportRect {
+  return {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    width: from.width + (to.width - from.width) * t,
+    height: from.height + (to.height - from.height) * t,
+  };
+}
+
+/**
+ * Tweens between viewports so zooming pans smoothly instead of jumping. A new
+ * target starts from wherever the previous animation currently is.
+ */
+export function createViewportAnimator(durationMs: number = 450): ViewportAnimator {
+  let from: ViewportRect = FULL_VIEWPORT;
+  let to: ViewportRect = FULL_VIEWPORT;
+  let startedAt = 0;
+
+  const progress = () => Math.min(1, (performance.now() - startedAt) / durationMs);
+
+  const current = () => lerpRect(from, to, easeInOutCubic(progress()));
+
+  const setTarget = (rect: ViewportRect) => {
+    from = current();
+    to = rect;
+    startedAt = performance.now();
+  };
+
+  return { setTarget, current, target: () => to };
+}
+
+/**
+ * Grows a region so it keeps the output's aspect ratio and stays inside the
+ * source. Normalized coordinates share the source's aspect, so that means
+ * equal normalized width and height.
+ */
+export function fitViewportToOutput(rect: ViewportRect): ViewportRect {
+  const size = Math.min(1, Math.max(MIN_VIEWPORT_SIZE, rect.width, rect.height));
+  const centerX = rect.x + rect.width / 2;
+  const centerY = rect.y + rect.height / 2;
+
+  return {
+    x: Math.max(0, Math.min(1 - size, centerX - size / 2)),
+    y: Math.max(0, Math.min(1 - size, centerY - size / 2)),
+    width: size,
+    height: size,
+  };
+}
+
+/** Converts a rect in canvas space into source space for the given viewport */
+export function canvasRectToSource(rect: ViewportRect, viewport: ViewportRect): ViewportRect {
+  return {
+    x: viewport.x + rect.x * viewport.width,
+    y: viewport.y + rect.y * viewport.height,
+    width: rect.width * viewport.width,
+    height: rect.height * viewport.height,
+  };
+}
+
+/** Converts a rect in source space into canvas space for the given viewport */
+export function sourceRectToCanvas(rect: ViewportRect, viewport: ViewportRect): ViewportRect {
+  return {
+    x: (rect.x - viewport.x) / viewport.width,
+    y: (rect.y - viewport.y) / viewport.height,
+    width: rect.width / viewport.width,
+    height: rect.height / viewport.height,
+  };
+}
+
+export function isFullViewport(rect: ViewportRect): boolean {
+  return rect.x === 0 && rect.y === 0 && rect.width === 1 && rect.height === 1;
+}
@@ -0,0 +1,259 @@
+import { loadPreference, savePreference } from './preferences';
+
+/** Where a shortcut is active; global shortcuts work in both views */
+export type ShortcutScope = 'global' | 'recorder' | 'editor';
+
+export type ShortcutAction =
+  | 'global.showShortcuts'
+  | 'recorder.toggleRecording'
+  | 'recorder.togglePause'
+  | 'recorder.toggleCamera'
+  | 'recorder.pushToTalk'
+  | 'recorder.toggleDrawing'
+  | 'recorder.undoDrawing'
+  | 'recorder.toggleZoom'
+  | 'recorder.toggleSpotlight'
+  | 'recorder.leaveTool'
+  | 'recorder.scene1'
+  | 'recorder.scene2'
+  | 'recorder.scene3'
+  | 'recorder.scene4'
+  | 'recorder.markHighlight'
+  | 'recorder.markRedo'
+  | 'recorder.toggleLowerThird'
+  | 'recorder.teleprompterScroll'
+  | 'recorder.teleprompterSlower'
+  | 'recorder.teleprompterFaster'
+  | 'editor.playPause'
+  | 'editor.split'
+  | 'editor.deleteSegment'
+  | 'editor.nudgeBack'
+  | 'editor.nudgeForward'
+  | 'editor.trimIn'
+  | 'editor.trimOut'
+  | 'editor.previousMarker'
+  | 'editor.nextMarker';
+
+export interface ShortcutDefinition {
+  scope: ShortcutScope;
+  label: string;
+  /**
+   * Modifiers then a `KeyboardEvent.code`, joined with "+", e.g. "Alt+KeyR".
+   * Codes keep bindings independent of the keyboard layout.
+   */
+  defaultBinding: string;
+}
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutRegistry {
+  getBindings: () => ShortcutBindings;
+  /**
+   * Rebinds `action`. Returns the action already using `binding` in an
+   * overlapping scope, in which case nothing changes.
+   */
+  setBinding: (action: ShortcutAction, binding: string) => ShortcutAction | null;
+  resetBinding: (action: ShortcutAction) => void;
+  resetAll: () => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac/.test(navigator.platform);
+
+export const SHORTCUTS: Record<ShortcutAction, ShortcutDefinition> = {
+  'global.showShortcuts': { scope: 'global', label: 'Show keyboard shortcuts', defaultBinding: 'Shift+Slash' },
+  'recorder.toggleRecording': { scope: 'recorder', label: 'Start / stop recording', defaultBinding: 'Alt+KeyR' },
+  'recorder.togglePause': { scope: 'recorder', label: 'Pause / resume', defaultBinding: 'Alt+KeyP' },
+  'recorder.toggleCamera': { scope: 'recorder', label: 'Camera on / off', defaultBinding: 'Alt+KeyC' },
+  'recorder.pushToTalk': { scope: 'recorder', label: 'Push-to-talk (hold)', defaultBinding: 'KeyT' },
+  'recorder.toggleDrawing': { scope: 'recorder', label: 'Draw on screen', defaultBinding: 'KeyD' },
+  'recorder.undoDrawing': {
+    scope: 'recorder',
+    label: 'Undo last drawing',
+    defaultBinding: IS_MAC ? 'Meta+KeyZ' : 'Ctrl+KeyZ',
+  },
+  'recorder.toggleZoom': { scope: 'recorder', label: 'Zoom in / out', defaultBinding: 'KeyZ' },
+  'recorder.toggleSpotlight': { scope: 'recorder', label: 'Spotlight', defaultBinding: 'KeyS' },
+  'recorder.leaveTool': { scope: 'recorder', label: 'Stop drawing / selecting a zoom area', defaultBinding: 'Escape' },
+  'recorder.scene1': { scope: 'recorder', label: 'Scene: screen + bubble', defaultBinding: 'Digit1' },
+  'recorder.scene2': { scope: 'recorder', label: 'Scene: side by side', defaultBinding: 'Digit2' },
+  'recorder.scene3': { scope: 'recorder', label: 'Scene: camera + screen inset', defaultBinding: 'Digit3' },
+  'recorder.scene4': { scope: 'recorder', label: 'Scene: screen only', defaultBinding: 'Digit4' },
+  'recorder.markHighlight': { scope: 'recorder', label: 'Mark an important moment', defaultBinding: 'KeyM' },
+  'recorder.markRedo': { scope: 'recorder', label: 'Mark a part to redo', defaultBinding: 'KeyR' },
+  'recorder.toggleLowerThird': { scope: 'recorder', label: 'Show / hide lower third', defaultBinding: 'KeyL' },
+  'recorder.teleprompterScroll': { scope: 'recorder', label: 'Notes: pause / resume scrolling', defaultBinding: 'KeyK' },
+  'recorder.teleprompterSlower': { scope: 'recorder', label: 'Notes: scroll slower', defaultBinding: 'Comma' },
+  'recorder.teleprompterFaster': { scope: 'recorder', label: 'Notes: scroll faster', defaultBinding: 'Period' },
+  'editor.playPause': { scope: 'editor', label: 'Play / pause', defaultBinding: 'Space' },
+  'editor.split': { scope: 'editor', label: 'Split at playhead', defaultBinding: 'KeyS' },
+  'editor.deleteSegment': { scope: 'editor', label: 'Delete segment at playhead', defaultBinding: 'Backspace' },
+  'editor.nudgeBack': { scope: 'editor', label: 'Nudge playhead back', defaultBinding: 'ArrowLeft' },
+  'editor.nudgeForward': { scope: 'editor', label: 'Nudge playhead forward', defaultBinding: 'ArrowRight' },
+  'editor.trimIn': { scope: 'editor', label: 'Trim start to playhead', defaultBinding: 'KeyI' },
+  'editor.trimOut': { scope: 'editor', label: 'Trim end to playhead', defaultBinding: 'KeyO' },
+  'editor.previousMarker': { scope: 'editor', label: 'Previous marker', defaultBinding: 'BracketLeft' },
+  'editor.nextMarker': { scope: 'editor', label: 'Next marker', defaultBinding: 'BracketRight' },
+};
+
+export const SHORTCUT_SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: 'General',
+  recorder: 'Recorder',
+  editor: 'Editor',
+};
+
+const SHORTCUTS_PREFERENCE = 'keyboard-shortcuts';
+
+const MODIFIER_CODES = [
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight',
+  'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight', 'CapsLock',
+];
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  Backslash: '\\',
+  Comma: ',',
+  Period: '.',
+  Semicolon: ';',
+  Quote: '\'',
+  Minus: '-',
+  Equal: '=',
+  Backquote: '`',
+  Escape: 'Esc',
+};
+
+/** The binding string for a key press, or null for a lone modifier */
+export function getEventBinding(e: KeyboardEvent): string | null {
+  if (MODIFIER_CODES.includes(e.code)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(e.code);
+  return parts.join('+');
+}
+
+/** The key part of a binding, for matching key-up events whatever the modifiers */
+export function getBindingCode(binding: string): string {
+  const parts = binding.split('+');
+  return parts[parts.length - 1];
+}
+
+/** Human readable form of a binding, e.g. "Alt + R" */
+export function formatBinding(binding: string): string {
+  return binding
+    .split('+')
+    .map(part => {
+      if (part === 'Meta') return IS_MAC ? '⌘' : 'Win';
+      if (part === 'Alt' && IS_MAC) return '⌥';
+      if (KEY_LABELS[part]) return KEY_LABELS[part];
+      return part.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+    })
+    .join(' + ');
+}
+
+/** Shortcuts should not fire while the user is typing into a field */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function scopesOverlap(a: ShortcutScope, b: ShortcutScope): boolean {
+  return a === b || a === 'global' || b === 'global';
+}
+
+export function findShortcutConflict(
+  bindings: ShortcutBindings,
+  action: ShortcutAction,
+  binding: string
+): ShortcutAction | null {
+  const scope = SHORTCUTS[action].scope;
+  const conflict = (Object.keys(bindings) as ShortcutAction[]).find(other =>
+    other !== action && bindings[other] === binding && scopesOverlap(scope, SHORTCUTS[other].scope)
+  );
+  return conflict ?? null;
+}
+
+function getDefaultBindings(): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  (Object.keys(SHORTCUTS) as ShortcutAction[]).forEach(action => {
+    bindings[action] = SHORTCUTS[action].defaultBinding;
+  });
+  return bindings;
+}
+
+/**
+ * Holds the current bindings. Only changes from the defaults are stored, so
+ * new default shortcuts reach users who customized others.
+ */
+export function createShortcutRegistry(): ShortcutRegistry {
+  let bindings: ShortcutBindings | null = null;
+  const listeners = new Set<() => void>();
+
+  const getBindings = () => {
+    if (!bindings) {
+      const overrides = loadPreference<Partial<ShortcutBindings>>(SHORTCUTS_PREFERENCE, {});
+      const defaults = getDefaultBindings();
+      // Drop overrides for actions that no longer exist
+      (Object.keys(overrides) as ShortcutAction[]).forEach(action => {
+        if (action in defaults && typeof overrides[action] === 'string') {
+          defaults[action] = overrides[action] as string;
+        }
+      });
+      bindings = defaults;
+    }
+    return bindings;
+  };
+
+  const update = (next: ShortcutBindings) => {
+    bindings = next;
+    const overrides: Partial<ShortcutBindings> = {};
+    (Object.keys(next) as ShortcutAction[]).forEach(action => {
+      if (next[action] !== SHORTCUTS[action].defaultBinding) overrides[action] = next[action];
+    });
+    savePreference(SHORTCUTS_PREFERENCE, overrides);
+    listeners.forEach(listener => listener());
+  };
+
+  const setBinding = (action: ShortcutAction, binding: string) => {
+    const current = getBindings();
+    const conflict = findShortcutConflict(current, action, binding);
+    if (conflict) return conflict;
+    update({ ...current, [action]: binding });
+    return null;
+  };
+
+  const resetBinding = (action: ShortcutAction) => {
+    const current = getBindings();
+    const binding = SHORTCUTS[action].defaultBinding;
+    // Whoever took the default in the meantime goes back to their own default
+    const next = { ...current, [action]: binding };
+    const conflict = findShortcutConflict(next, action, binding);
+    if (conflict) next[conflict] = SHORTCUTS[conflict].defaultBinding;
+    update(next);
+  };
+
+  const resetAll = () => {
+    update(getDefaultBindings());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getBindings, setBinding, resetBinding, resetAll, subscribe };
+}
+
+/** The app-wide registry shared by the recorder, the editor and the cheat sheet */
+export const shortcutRegistry = createShortcutRegistry();
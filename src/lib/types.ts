@@ -7,7 +7,43 @@ declare global {
 
 export type CameraPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'bottom-center';
 export type CameraSize = 'small' | 'medium' | 'large';
-export type CameraShape = 'circle' | 'rectangle';
+export type CameraShape = 'circle' | 'rectangle' | 'rounded-square' | 'squircle';
+
+export type RecordingMode = 'screen-camera' | 'screen' | 'camera' | 'audio';
+/** How screen and camera share the frame in screen + camera recordings */
+export type SceneLayout = 'screen-bubble' | 'split' | 'camera-inset' | 'screen-only';
+export type OutputResolution = '480p' | '720p' | '1080p' | '1440p';
+export type CaptureResolution = 'source' | OutputResolution;
+export type QualityPreset = 'compact' | 'standard' | 'high' | 'custom';
+
+export interface CaptureQuality {
+  preset: QualityPreset;
+  /** 'source' keeps the shared surface's native size; otherwise the output is downscaled to fit */
+  resolution: CaptureResolution;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+}
+
+export interface ChromaKey {
+  enabled: boolean;
+  /** Backdrop color as a hex string, e.g. '#00ff00' */
+  color: string;
+  /** 0..1, how far a pixel's chroma may drift from the key color and still be removed */
+  tolerance: number;
+  /** 0..1, how strongly the backdrop's color cast is removed from the remaining edges */
+  spillSuppression: number;
+}
+
+export type CameraBackgroundEffect = 'none' | 'blur' | 'replace';
+
+export interface CameraEffectSettings {
+  kind: CameraBackgroundEffect;
+  /** Blur strength in pixels at the camera's drawn size */
+  blurRadius: number;
+  /** Image shown behind the presenter for 'replace' */
+  backgroundImageUrl?: string;
+}
 
 export interface CameraSettings {
   position: CameraPosition;
@@ -15,12 +51,63 @@ export interface CameraSettings {
   shape: CameraShape;
   customPosition?: { x: number; y: number };
   customSize?: { width: number; height: number };
+  /** When enabled the presenter is cut out and drawn over the screen without a bubble */
+  chromaKey?: ChromaKey;
+  /** Background blur or replacement, applied before the bubble is drawn */
+  effect?: CameraEffectSettings;
+  /** Flip horizontally like a mirror (default on) */
+  mirror?: boolean;
+  borderColor?: string;
+  /** Border width in pixels at a 240px-wide bubble; scales with the bubble */
+  borderWidth?: number;
+  shadow?: boolean;
+  /** Digital zoom into the camera image, 1 = whole frame */
+  zoom?: number;
+  /** Where the zoomed crop sits, -1..1 on each axis as seen in the bubble; 0 = centered */
+  cropOffset?: { x: number; y: number };
+}
+
+export type BrandingCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface BrandingLogo {
+  /** The image as a data URL, so the kit can be kept in local storage */
+  src: string;
+  corner: BrandingCorner;
+  /** 0..1 */
+  opacity: number;
+  /** Logo width as a fraction of the output width */
+  size: number;
 }
 
+/** Branding drawn into the recording: logo watermark, lower third and caption bar */
+export interface BrandingKit {
+  logo: BrandingLogo | null;
+  lowerThird: {
+    name: string;
+    title: string;
+    /** Accent bar color */
+    color: string;
+  };
+  caption: {
+    enabled: boolean;
+    text: string;
+  };
+}
+
+/** Named presets for the microphone processing chain */
+export type MicProcessingProfile = 'off' | 'light' | 'broadcast';
+
 export interface AudioSettings {
   microphoneEnabled: boolean;
   systemAudioEnabled: boolean;
   microphoneDeviceId?: string;
+  microphoneGain: number;
+  systemAudioGain: number;
+  microphoneMuted: boolean;
+  systemAudioMuted: boolean;
+  pushToTalk: boolean;
+  duckingEnabled: boolean;
+  micProcessing: MicProcessingProfile;
 }
 
 export interface RecordingState {
@@ -28,6 +115,83 @@ export interface RecordingState {
   isPaused: boolean;
   duration: number;
   startTime: number | null;
+  /** Seconds until an auto-stop limit is hit, or null when no limit applies */
+  timeRemaining: number | null;
+  /** Markers dropped so far in this recording */
+  markers: RecordingMarker[];
+}
+
+/** `highlight` marks an important moment, `redo` a part to re-record or cut */
+export type MarkerKind = 'highlight' | 'redo';
+
+export interface RecordingMarker {
+  id: string;
+  kind: MarkerKind;
+  /** Seconds into the recording (pauses excluded) */
+  time: number;
+  label?: string;
+}
+
+export interface SceneChange {
+  layout: SceneLayout;
+  /** Seconds into the recording (pauses excluded) when the scene was switched to */
+  time: number;
+}
+
+/**
+ * Things drawn into the composite that the isolated screen and camera tracks
+ * don't contain, so a camera re-layout from those tracks would drop them.
+ */
+export type CompositeOnlyFeature =
+  | 'annotations'
+  | 'zoom'
+  | 'spotlight'
+  | 'branding'
+  | 'extra-sources'
+  | 'scenes'
+  | 'camera-effects'
+  | 'chroma-key'
+  | 'camera-style';
+
+/** Raw sources recorded next to the composite so the camera can be re-laid out afterwards */
+export interface IsoTracks {
+  screen: Blob;
+  camera: Blob;
+  /** Size of the composite the camera layout is relative to */
+  outputSize: { width: number; height: number };
+  /** Camera styling when the recording started, the starting point for re-layout */
+  cameraSettings: CameraSettings;
+  /** Part of the raw screen that was recorded, normalized; the whole screen when absent */
+  screenCrop?: { x: number; y: number; width: number; height: number };
+  /** What the composite shows beyond the ISO tracks; camera re-layout is blocked while any is present */
+  compositeOnly: CompositeOnlyFeature[];
+}
+
+/** Everything known about a finished recording besides the video itself */
+export interface RecordingMetadata {
+  sceneChanges: SceneChange[];
+  markers: RecordingMarker[];
+  isoTracks?: IsoTracks;
+}
+
+/** Camera placement from `time` until the next keyframe, used to re-render from ISO tracks */
+export interface CameraLayoutKeyframe {
+  time: number;
+  visible: boolean;
+  /** Top-left corner of the bubble, normalized to the output frame */
+  x: number;
+  y: number;
+  /** Bubble width as a fraction of the output width; height is 3/4 of the width */
+  size: number;
+  shape: CameraShape;
+}
+
+export type CountdownSeconds = 0 | 3 | 5 | 10;
+
+export interface RecordingLimits {
+  countdownSeconds: CountdownSeconds;
+  maxDurationSeconds: number | null;
+  maxFileSizeBytes: number | null;
 }
 
 export interface TimelineSegment {
@@ -44,8 +208,12 @@ export interface EditorState {
   isPlaying: boolean;
 }
 
+export type VideoExportFormat = 'webm' | 'mp4';
+/** Formats for audio-only recordings; doubles as the file extension */
+export type AudioExportFormat = 'opus' | 'mp3' | 'wav';
+
 export interface ExportOptions {
-  format: 'webm' | 'mp4';
+  format: VideoExportFormat | AudioExportFormat;
   quality: 'low' | 'medium' | 'high';
 }
 
@@ -61,6 +229,13 @@ export const CAMERA_SIZE_MAP: Record<CameraSize, { width: number; height: number
   large: { width: 240, height: 180 },
 };
 
+/** Camera bubble width as a fraction of the output width */
+export const CAMERA_SIZE_RATIO: Record<CameraSize, number> = {
+  small: 0.15,
+  medium: 0.2,
+  large: 0.25,
+};
+
 export const CAMERA_POSITION_MAP: Record<CameraPosition, { bottom?: string; top?: string; left?: string; right?: string }> = {
   'top-left': { top: '1rem', left: '1rem' },
   'top-right': { top: '1rem', right: '1rem' },
@@ -68,3 +243,34 @@ export const CAMERA_POSITION_MAP: Record<CameraPosition, { bottom?: string; top?
   'bottom-right': { bottom: '1rem', right: '1rem' },
   'bottom-center': { bottom: '1rem', left: '50%' },
 };
+
+export const DEFAULT_CHROMA_KEY: ChromaKey = {
+  enabled: false,
+  color: '#00b140',
+  tolerance: 0.3,
+  spillSuppression: 0.5,
+};
+
+export const DEFAULT_CAMERA_EFFECT: CameraEffectSettings = {
+  kind: 'none',
+  blurRadius: 8,
+};
+
+export const DEFAULT_BRANDING_KIT: BrandingKit = {
+  logo: null,
+  lowerThird: { name: '', title: '', color: '#3b82f6' },
+  caption: { enabled: false, text: '' },
+};
+
+export const OUTPUT_RESOLUTION_MAP: Record<OutputResolution, { width: number; height: number }> = {
+  '480p': { width: 854, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '1440p': { width: 2560, height: 1440 },
+};
+
+export const QUALITY_PRESETS: Record<Exclude<QualityPreset, 'custom'>, Omit<CaptureQuality, 'preset'>> = {
+  compact: { resolution: '720p', frameRate: 15, videoBitsPerSecond: 1_000_000, audioBitsPerSecond: 64_000 },
+  standard: { resolution: '1080p', frameRate: 30, videoBitsPerSecond: 4_000_000, audioBitsPerSecond: 128_000 },
+  high: { resolution: 'source', frameRate: 60, videoBitsPerSecond: 10_000_000, audioBitsPerSecond: 192_000 },
+};